@@ -1,44 +1,321 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { AppView, WordItem, DictationSettings, DEFAULT_SETTINGS, DictationMode } from './types';
-import { loadWords, saveWords, loadSettings, saveSettings, calculateNextReview } from './services/storageService';
+import { AppView, WordItem, DictationSettings, DEFAULT_SETTINGS, DictationMode, LearnerProfile, ImportMode, ReviewEvent, SessionRecord, SessionSource, CorrectionResult, DailyPlan, ActiveSession, TrashEntry, Snapshot, SnapshotReason, SyncConfig, SyncStatus } from './types';
+import {
+  initStorage, loadWords, saveWords, loadSettings, saveSettings,
+  DEFAULT_PROFILE_ID, loadProfiles, saveProfile, deleteProfile, loadActiveProfileId, saveActiveProfileId,
+  loadReviewEvents, appendReviewEvents, loadSessions, saveSession,
+  loadTrash, saveTrashEntry, deleteTrashEntries, subscribeToChanges, applyRemoteWordChanges,
+  loadSyncConfig, saveSyncConfig, loadLastSyncedAt, syncWithRemote, loadSnapshots, saveSnapshot,
+  loadDailyPlan, saveDailyPlan, loadActiveSession, saveActiveSession, WordSaveResult
+} from './services/storageService';
+import { createSyncAdapter } from './services/syncService';
+import { scheduleReview, switchAlgorithm } from './services/schedulerService';
+import { updateDailyPlan, getPlanProgress, pullIntoPlan } from './services/planService';
+import { isLeech, leechPracticeSettings, LEECH_SPEECH_RATE } from './services/leechService';
+import { applyExamSchedule, daysUntilExam, getUpcomingExam } from './services/examService';
+import { encryptBackup, decryptBackup, isEncryptedBackup } from './services/cryptoService';
+import { parseShareHash, isShareHash, SharedGroup } from './services/shareService';
 import { sendNotification, requestNotificationPermission, getNotificationPermissionState } from './services/notificationService';
 import { getSystemVoices } from './services/geminiService';
+import { parseBackup, createBackup, ParsedProfileBackup, ProfileBackup, WordsValidationResult } from './services/schemaService';
+import { planImport, findTargetProfile, remapReviewEvents, ImportPlan } from './services/importService';
+import { decodeText, detectDelimiter, parseDelimited, wordsToTable, TableFormat, TABLE_FILE_INFO } from './services/csvService';
 import InputView from './components/InputView';
 import DictationSession from './components/DictationSession';
 import CorrectionView from './components/CorrectionView';
 import SettingsView from './components/SettingsView';
 import WordListView from './components/WordListView';
+import DailyPlanCard from './components/DailyPlanCard';
+import ResumeSessionCard from './components/ResumeSessionCard';
+import ForecastView from './components/ForecastView';
+import WeakCharsView from './components/WeakCharsView';
+import ImportDialog from './components/ImportDialog';
+import TableImportDialog from './components/TableImportDialog';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import SessionHistoryView from './components/SessionHistoryView';
+import TrashView from './components/TrashView';
+import PassphraseDialog from './components/PassphraseDialog';
+import SnapshotView from './components/SnapshotView';
+import ShareDialog from './components/ShareDialog';
+import ExamDateDialog from './components/ExamDateDialog';
+
+const ONE_DAY = 24 * 60 * 60 * 1000;
+
+// Background sync period while the app is open
+const SYNC_INTERVAL = 5 * 60 * 1000;
+
+const errorMessage = (err: unknown) => err instanceof Error ? err.message : String(err);
+
+const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
 
 const App: React.FC = () => {
   const [view, setView] = useState<AppView>(AppView.DASHBOARD);
-  const [words, setWords] = useState<WordItem[]>(() => loadWords());
-  const [settings, setSettings] = useState<DictationSettings>(() => loadSettings());
-  const [avatar, setAvatar] = useState<string>(() => {
-    return localStorage.getItem('userAvatar') || '/photo/duoduo.png';
-  });
+  const [words, setWords] = useState<WordItem[]>([]);
+  const [settings, setSettings] = useState<DictationSettings>(DEFAULT_SETTINGS);
+  const [reviewEvents, setReviewEvents] = useState<ReviewEvent[]>([]);
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [trash, setTrash] = useState<TrashEntry[]>([]);
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  // Today's plan of the active profile; null until made for the first time
+  const [dailyPlan, setDailyPlan] = useState<DailyPlan | null>(null);
+  // Dictation interrupted by a reload or by leaving it, offered on the dashboard
+  const [activeSession, setActiveSession] = useState<ActiveSession | null>(null);
+  // Last deletion, offered for undo in a toast
+  const [undoEntry, setUndoEntry] = useState<TrashEntry | null>(null);
+  // Learner Profiles: words and settings above belong to the active profile
+  const [profiles, setProfiles] = useState<LearnerProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string>(DEFAULT_PROFILE_ID);
+
+  // Persistence State
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  // Self-hosted sync of this device; null when turned off
+  const [syncConfig, setSyncConfig] = useState<SyncConfig | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ state: 'idle', lastSyncedAt: null, message: null });
+  const syncingRef = useRef(false);
+  // Read by sync results that arrive after a profile switch
+  const activeProfileIdRef = useRef(activeProfileId);
+  // Review events of the active profile whose write failed, written again by "重试"
+  const unsavedEventsRef = useRef<ReviewEvent[]>([]);
 
   // Session State
   const [sessionWords, setSessionWords] = useState<WordItem[]>([]);
+  // The dictation in progress; becomes a SessionRecord after correction
+  const [currentSession, setCurrentSession] = useState<Pick<SessionRecord, 'id' | 'source' | 'groupTitle' | 'startedAt'> | null>(null);
+  // Playback settings of the running dictation, and where a continued one starts
+  const [dictationSetup, setDictationSetup] = useState<{
+    settings: DictationSettings;
+    speechRate?: number;
+    resume?: { index: number; played: string[]; replays: Record<string, number> };
+  }>({ settings: DEFAULT_SETTINGS });
+  // Word id -> extra hearings during the dictation, shown in the correction
+  const [sessionReplays, setSessionReplays] = useState<Record<string, number>>({});
+  // Import awaiting confirmation in ImportDialog
+  const [pendingImport, setPendingImport] = useState<{
+    fileName: string;
+    sources: ParsedProfileBackup[];
+  } | null>(null);
+  // CSV/TSV/Anki file awaiting column mapping in TableImportDialog
+  const [pendingTable, setPendingTable] = useState<{ fileName: string; rows: string[][] } | null>(null);
+  // Encrypted export or import waiting for the passphrase in PassphraseDialog
+  const [passphraseRequest, setPassphraseRequest] = useState<
+    { kind: 'export'; allProfiles: boolean } | { kind: 'import'; fileName: string; text: string } | null
+  >(null);
+  const [passphraseError, setPassphraseError] = useState<string | null>(null);
+  const [passphraseBusy, setPassphraseBusy] = useState(false);
   // Editing/Viewing State
   const [editingGroupTitle, setEditingGroupTitle] = useState<string | null>(null);
+  // Group received through a share link, shown prefilled in InputView
+  const [sharedGroup, setSharedGroup] = useState<SharedGroup | null>(null);
+  // Group whose share link and QR code are shown
+  const [sharingGroupTitle, setSharingGroupTitle] = useState<string | null>(null);
   const [viewingGroupTitle, setViewingGroupTitle] = useState<string | null>(null);
+  // Group whose exam date is being set
+  const [examGroupTitle, setExamGroupTitle] = useState<string | null>(null);
 
   // Notification Throttling
   const lastNotificationTimeRef = useRef<number>(0);
-  const avatarInputRef = useRef<HTMLInputElement>(null);
 
-  // Auto-save words to localStorage whenever they change
+  // Load persisted data once (migrating from localStorage if needed)
   useEffect(() => {
-    saveWords(words);
-    console.log('Words saved to localStorage:', words.length, 'items');
-  }, [words]);
+    const loadData = async () => {
+      try {
+        await initStorage();
+        const profileId = await loadActiveProfileId();
+        const [storedProfiles, storedWords, storedSettings, storedEvents, storedSessions, storedSnapshots, storedPlan, storedActiveSession, storedSyncConfig, lastSyncedAt] = await Promise.all([
+          loadProfiles(),
+          loadWords(profileId),
+          loadSettings(profileId),
+          loadReviewEvents(profileId),
+          loadSessions(profileId),
+          loadSnapshots(profileId),
+          loadDailyPlan(profileId),
+          loadActiveSession(profileId),
+          loadSyncConfig(),
+          loadLastSyncedAt(profileId)
+        ]);
+        setProfiles(storedProfiles);
+        setActiveProfileId(profileId);
+        setWords(storedWords);
+        setSettings(storedSettings);
+        setReviewEvents(storedEvents);
+        setSessions(storedSessions);
+        setSnapshots(storedSnapshots);
+        setDailyPlan(storedPlan);
+        setActiveSession(storedActiveSession);
+        setTrash(await loadTrash(profileId, storedSettings.trashRetentionDays));
+        setSyncConfig(storedSyncConfig);
+        setSyncStatus(prev => ({ ...prev, lastSyncedAt }));
+      } catch (err) {
+        console.error('Failed to load data:', err);
+        setStorageError(errorMessage(err) || '数据读取失败');
+      } finally {
+        setIsLoaded(true);
+      }
+    };
+
+    loadData();
+  }, []);
+
+  // Words another tab changed meanwhile come back merged or dropped; state must
+  // match what was written, or the next save would overwrite the other tab's edit
+  const applyWordSaveResult = ({ resolved, droppedIds }: WordSaveResult) => {
+    if (resolved.size === 0 && droppedIds.length === 0) return;
+    setWords(prev => prev
+      .filter(w => !droppedIds.includes(w.id))
+      .map(w => resolved.get(w) ?? w));
+  };
+
+  // Auto-save words whenever they change (only changed records are written).
+  useEffect(() => {
+    if (!isLoaded) return;
+    saveWords(activeProfileId, words)
+      .then(result => {
+        setStorageError(null);
+        applyWordSaveResult(result);
+      })
+      .catch((err: Error) => {
+        console.error('Failed to save words:', err);
+        setStorageError(err.message);
+      });
+  }, [words, activeProfileId, isLoaded]);
+
+  // Auto-save settings whenever they change
+  useEffect(() => {
+    if (!isLoaded) return;
+    saveSettings(activeProfileId, settings).catch((err: Error) => {
+      console.error('Failed to save settings:', err);
+      setStorageError(err.message);
+    });
+  }, [settings, activeProfileId, isLoaded]);
+
+  // Keep today's plan current: a new one after midnight, topped up when words
+  // are added or become due
+  useEffect(() => {
+    if (!isLoaded) return;
+    const next = updateDailyPlan(dailyPlan, words, settings);
+    if (next === dailyPlan) return;
+    setDailyPlan(next);
+    saveDailyPlan(activeProfileId, next).catch((err: Error) => {
+      console.error('Failed to save daily plan:', err);
+      setStorageError(err.message);
+    });
+  }, [words, settings.dailyReviewLimit, settings.dailyNewLimit, dailyPlan, activeProfileId, isLoaded]);
+
+  // Pick up changes made in other open tabs of the app
+  useEffect(() => {
+    if (!isLoaded) return;
+    return subscribeToChanges(async change => {
+      try {
+        if (change.kind === 'syncConfig') {
+          setSyncConfig(await loadSyncConfig());
+          return;
+        }
+        if (change.kind === 'profiles') {
+          const storedProfiles = await loadProfiles();
+          setProfiles(storedProfiles);
+          if (storedProfiles.length > 0 && !storedProfiles.some(p => p.id === activeProfileId)) {
+            await openProfile(storedProfiles[0].id);
+          }
+          return;
+        }
+        if (change.profileId !== activeProfileId) return;
+
+        switch (change.kind) {
+          case 'words':
+            setWords(await applyRemoteWordChanges(change.profileId, change.changedIds, change.deletedIds));
+            break;
+          case 'reviewEvents':
+            setReviewEvents(await loadReviewEvents(change.profileId));
+            break;
+          case 'sessions':
+            setSessions(await loadSessions(change.profileId));
+            break;
+          case 'trash':
+            setTrash(await loadTrash(change.profileId));
+            break;
+          case 'settings':
+            setSettings(await loadSettings(change.profileId));
+            break;
+          case 'dailyPlan':
+            setDailyPlan(await loadDailyPlan(change.profileId));
+            break;
+        }
+      } catch (err) {
+        console.error('Failed to apply change from another tab:', err);
+      }
+    });
+  }, [activeProfileId, isLoaded]);
+
+  useEffect(() => {
+    activeProfileIdRef.current = activeProfileId;
+  }, [activeProfileId]);
+
+  // Sync on start, every few minutes, and whenever the device comes back
+  // online or the app is shown or hidden. Without a connection everything
+  // keeps working locally and pending changes wait for the next run.
+  useEffect(() => {
+    if (!isLoaded || !syncConfig) return;
+    const sync = () => runSync(syncConfig);
+    sync();
+    const intervalId = setInterval(sync, SYNC_INTERVAL);
+    window.addEventListener('online', sync);
+    document.addEventListener('visibilitychange', sync);
+    return () => {
+      clearInterval(intervalId);
+      window.removeEventListener('online', sync);
+      document.removeEventListener('visibilitychange', sync);
+    };
+  }, [syncConfig, isLoaded]);
+
+  // Open share links, both on start and when pasted into an open tab
+  useEffect(() => {
+    if (!isLoaded) return;
+    const openShareLink = async () => {
+      if (!isShareHash(window.location.hash)) return;
+      let group: SharedGroup | null = null;
+      try {
+        group = await parseShareHash(window.location.hash);
+      } catch (err) {
+        alert(errorMessage(err));
+      }
+      // Keep the words out of the address bar once read
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      if (!group) return;
+      setEditingGroupTitle(null);
+      setSharedGroup(group);
+      setView(AppView.INPUT);
+    };
+    openShareLink();
+    window.addEventListener('hashchange', openShareLink);
+    return () => window.removeEventListener('hashchange', openShareLink);
+  }, [isLoaded]);
 
-  // Auto-save settings to localStorage whenever they change
+  // One snapshot a day, taken when the app is opened or the profile is switched
   useEffect(() => {
-    saveSettings(settings);
-    console.log('Settings saved to localStorage');
-  }, [settings]);
+    if (!isLoaded || words.length === 0) return;
+    const lastDaily = snapshots.find(s => s.reason === SnapshotReason.DAILY);
+    if (lastDaily && Date.now() - lastDaily.createdAt < ONE_DAY) return;
+    takeSnapshot(SnapshotReason.DAILY);
+  }, [isLoaded, activeProfileId, snapshots]);
+
+  // Hide the undo toast after a while; the entry stays in the recycle bin
+  useEffect(() => {
+    if (!undoEntry) return;
+    const timer = setTimeout(() => setUndoEntry(null), 8000);
+    return () => clearTimeout(timer);
+  }, [undoEntry]);
 
   // Auto-select a default voice for Safari compatibility if voice is empty
   useEffect(() => {
@@ -85,7 +362,7 @@ const App: React.FC = () => {
       if (now - lastNotificationTimeRef.current < 60 * 60 * 1000) return;
 
       // 4. Check for due words
-      const dueCount = words.filter(w => w.nextReview <= now).length;
+      const dueCount = words.filter(w => !w.suspended && w.nextReview <= now).length;
 
       if (dueCount > 0) {
         sendNotification(
@@ -116,9 +393,12 @@ const App: React.FC = () => {
 
   const allDueWords = useMemo(() => {
     const now = Date.now();
-    return words.filter(w => w.nextReview <= now);
+    return words.filter(w => !w.suspended && w.nextReview <= now);
   }, [words]);
 
+  const leechWords = useMemo(() => words.filter(w => isLeech(w, settings)), [words, settings]);
+  const leechIds = useMemo(() => new Set(leechWords.map(w => w.id)), [leechWords]);
+
   // Words that have ever been wrong
   const hasHistoryWords = useMemo(() => {
     return words.filter(w => (w.totalWrong || 0) > 0);
@@ -126,7 +406,84 @@ const App: React.FC = () => {
 
   const totalLearned = words.filter(w => w.streak > 3).length; // >3 considered mastered for stats
 
+  const planProgress = useMemo(() => dailyPlan && getPlanProgress(dailyPlan, words, settings), [dailyPlan, words, settings]);
+
   // Handlers
+  const startSession = (targetWords: WordItem[], source: SessionSource, groupTitle: string | null = null) => {
+    setSessionWords(targetWords);
+    setCurrentSession({ id: uuidv4(), source, groupTitle, startedAt: Date.now() });
+    setSessionReplays({});
+    // Leeches are read slower, three times each
+    setDictationSetup(source === SessionSource.LEECH
+      ? { settings: leechPracticeSettings(settings), speechRate: LEECH_SPEECH_RATE }
+      : { settings });
+    setView(AppView.DICTATION);
+  };
+
+  // --- Interrupted Dictation ---
+
+  const persistActiveSession = (session: ActiveSession | null) => {
+    setActiveSession(session);
+    saveActiveSession(activeProfileId, session).catch((err: Error) => {
+      console.error('Failed to save dictation progress:', err);
+      setStorageError(err.message);
+    });
+  };
+
+  const handleDictationProgress = (queue: WordItem[], index: number, played: WordItem[], replays: Record<string, number>) => {
+    if (!currentSession) return;
+    persistActiveSession({
+      ...currentSession,
+      step: 'DICTATION',
+      wordIds: queue.map(w => w.id),
+      index,
+      played: played.map(w => w.id),
+      replays,
+      settings: dictationSetup.settings,
+      ...(dictationSetup.speechRate !== undefined && { speechRate: dictationSetup.speechRate }),
+      savedAt: Date.now()
+    });
+  };
+
+  // Continue at the word it stopped at, or with the correction if all words were played.
+  // Words deleted since are left out.
+  const handleResumeSession = () => {
+    if (!activeSession) return;
+    const byId = new Map(words.map(w => [w.id, w]));
+    const queue = activeSession.wordIds.map(id => byId.get(id)).filter((w): w is WordItem => !!w);
+    if (queue.length === 0) {
+      alert('上次听写的词都已删除，无法继续');
+      persistActiveSession(null);
+      return;
+    }
+    const kept = (count: number) => activeSession.wordIds.slice(0, count).filter(id => byId.has(id)).length;
+
+    const { id, source, groupTitle, startedAt } = activeSession;
+    setSessionWords(queue);
+    setCurrentSession({ id, source, groupTitle, startedAt });
+    setSessionReplays(activeSession.replays);
+    if (activeSession.step === 'CORRECTION') {
+      // The session record takes the playback order from here
+      setDictationSetup({ settings: activeSession.settings, speechRate: activeSession.speechRate });
+      setView(AppView.CORRECTION);
+      return;
+    }
+    setDictationSetup({
+      settings: activeSession.settings,
+      speechRate: activeSession.speechRate,
+      resume: {
+        index: kept(activeSession.index),
+        played: activeSession.played,
+        replays: activeSession.replays
+      }
+    });
+    setView(AppView.DICTATION);
+  };
+
+  const handleDiscardSession = () => {
+    if (window.confirm('放弃上次的听写？已听写的词不会记录成绩。')) persistActiveSession(null);
+  };
+
   const handleStartInput = () => {
     setEditingGroupTitle(null);
     setView(AppView.INPUT);
@@ -134,27 +491,194 @@ const App: React.FC = () => {
 
   const handleOpenSettings = () => setView(AppView.SETTINGS);
 
-  const handleAvatarChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file && file.type.startsWith('image/')) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const result = event.target?.result as string;
-        setAvatar(result);
-        localStorage.setItem('userAvatar', result);
+  const handleOpenHistory = () => setView(AppView.HISTORY);
+
+  const handleOpenForecast = () => setView(AppView.FORECAST);
+
+  const handleOpenWeakChars = () => setView(AppView.WEAK_CHARS);
+
+  const handleRetrySave = () => {
+    saveWords(activeProfileId, words)
+      .then(applyWordSaveResult)
+      .then(() => saveSettings(activeProfileId, settings))
+      .then(() => {
+        const unsaved = unsavedEventsRef.current;
+        return appendReviewEvents(activeProfileId, unsaved).then(() => {
+          unsavedEventsRef.current = unsavedEventsRef.current.filter(e => !unsaved.includes(e));
+        });
+      })
+      .then(() => setStorageError(null))
+      .catch((err: Error) => setStorageError(err.message));
+  };
+
+  // --- Sync ---
+
+  const runSync = async (config: SyncConfig) => {
+    if (syncingRef.current) return;
+    if (!navigator.onLine) {
+      setSyncStatus(prev => ({ ...prev, state: 'offline', message: null }));
+      return;
+    }
+    syncingRef.current = true;
+    setSyncStatus(prev => ({ ...prev, state: 'syncing', message: null }));
+    try {
+      const { profilesAdded, changes } = await syncWithRemote(createSyncAdapter(config));
+      if (profilesAdded) setProfiles(await loadProfiles());
+
+      const profileId = activeProfileIdRef.current;
+      const active = changes.find(c => c.profileId === profileId);
+      if (active && (active.changedIds.length > 0 || active.deletedIds.length > 0)) {
+        const update = await applyRemoteWordChanges(profileId, active.changedIds, active.deletedIds);
+        if (profileId === activeProfileIdRef.current) setWords(update);
+      }
+      if (active?.reviewEventsChanged) {
+        const events = await loadReviewEvents(profileId);
+        if (profileId === activeProfileIdRef.current) setReviewEvents(events);
+      }
+      setSyncStatus({ state: 'idle', lastSyncedAt: Date.now(), message: null });
+    } catch (err) {
+      console.error('Sync failed:', err);
+      setSyncStatus(prev => ({ ...prev, state: navigator.onLine ? 'error' : 'offline', message: errorMessage(err) }));
+    } finally {
+      syncingRef.current = false;
+    }
+  };
+
+  const handleSaveSyncConfig = async (config: SyncConfig | null) => {
+    try {
+      await saveSyncConfig(config);
+      setSyncStatus({ state: 'idle', lastSyncedAt: null, message: null });
+      // Starts a sync through the effect above
+      setSyncConfig(config);
+    } catch (err) {
+      console.error('Failed to save sync settings:', err);
+      setStorageError(errorMessage(err));
+    }
+  };
+
+  // --- Snapshots ---
+
+  // Keep a copy of a profile's words and settings, e.g. before a risky change
+  const takeSnapshot = async (reason: SnapshotReason, profileId: string = activeProfileId) => {
+    try {
+      const isActive = profileId === activeProfileId;
+      const snapshot: Snapshot = {
+        id: uuidv4(),
+        createdAt: Date.now(),
+        reason,
+        words: isActive ? words : await loadWords(profileId),
+        settings: isActive ? settings : await loadSettings(profileId),
       };
-      reader.readAsDataURL(file);
+      await saveSnapshot(profileId, snapshot, snapshot.settings.snapshotCount);
+      if (isActive) setSnapshots(prev => [snapshot, ...prev].slice(0, snapshot.settings.snapshotCount));
+    } catch (err) {
+      console.error('Failed to save snapshot:', err);
+      setStorageError(errorMessage(err));
+    }
+  };
+
+  const handleRestoreSnapshot = async (snapshot: Snapshot) => {
+    await takeSnapshot(SnapshotReason.RESTORE);
+    // Restored words count as the newest copies for other tabs and synced devices
+    const now = Date.now();
+    setWords(snapshot.words.map(w => ({ ...w, updatedAt: now })));
+    // The voice belongs to this device, not to the snapshot
+    setSettings({ ...DEFAULT_SETTINGS, ...snapshot.settings, voice: settings.voice });
+    setView(AppView.DASHBOARD);
+  };
+
+  // --- Learner Profiles ---
+
+  // Load before switching so words and settings never pair with the wrong profile
+  const openProfile = async (profileId: string) => {
+    const [profileWords, profileSettings, profileEvents, profileSessions, profileSnapshots, profilePlan, profileActiveSession] = await Promise.all([
+      loadWords(profileId),
+      loadSettings(profileId),
+      loadReviewEvents(profileId),
+      loadSessions(profileId),
+      loadSnapshots(profileId),
+      loadDailyPlan(profileId),
+      loadActiveSession(profileId)
+    ]);
+    const profileTrash = await loadTrash(profileId, profileSettings.trashRetentionDays);
+    setActiveProfileId(profileId);
+    setWords(profileWords);
+    setSettings(profileSettings);
+    setReviewEvents(profileEvents);
+    unsavedEventsRef.current = [];
+    setSessions(profileSessions);
+    setSnapshots(profileSnapshots);
+    setDailyPlan(profilePlan);
+    setActiveSession(profileActiveSession);
+    setTrash(profileTrash);
+    setUndoEntry(null);
+    setView(AppView.DASHBOARD);
+    await saveActiveProfileId(profileId);
+  };
+
+  const handleSwitchProfile = async (profileId: string) => {
+    if (profileId === activeProfileId) return;
+    try {
+      await openProfile(profileId);
+    } catch (err) {
+      console.error('Failed to switch profile:', err);
+      setStorageError(errorMessage(err) || '数据读取失败');
+    }
+  };
+
+  const updateProfile = (profile: LearnerProfile) => {
+    setProfiles(prev => prev.map(p => p.id === profile.id ? profile : p));
+    saveProfile(profile).catch((err: Error) => {
+      console.error('Failed to save profile:', err);
+      setStorageError(err.message);
+    });
+  };
+
+  const handleAddProfile = async (name: string) => {
+    const profile: LearnerProfile = { id: uuidv4(), name, avatar: null, createdAt: Date.now() };
+    try {
+      await saveProfile(profile);
+      setProfiles(prev => [...prev, profile]);
+      await openProfile(profile.id);
+    } catch (err) {
+      console.error('Failed to add profile:', err);
+      setStorageError(errorMessage(err));
     }
   };
 
-  const handleAvatarClick = () => {
-    avatarInputRef.current?.click();
+  const handleRenameProfile = (profileId: string, name: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    if (profile) updateProfile({ ...profile, name });
+  };
+
+  const handleChangeAvatar = (profileId: string, avatar: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    if (profile) updateProfile({ ...profile, avatar });
+  };
+
+  const handleDeleteProfile = async (profileId: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    const remaining = profiles.filter(p => p.id !== profileId);
+    if (!profile || remaining.length === 0) return;
+    if (!window.confirm(`确定要删除 "${profile.name}" 及其所有词语和复习记录吗？此操作无法撤销。`)) return;
+
+    try {
+      if (profileId === activeProfileId) {
+        await openProfile(remaining[0].id);
+      }
+      await deleteProfile(profileId);
+      setProfiles(remaining);
+    } catch (err) {
+      console.error('Failed to delete profile:', err);
+      setStorageError(errorMessage(err));
+    }
   };
 
   const handleSaveWords = (inputWords: string[], title: string) => {
     const now = Date.now();
 
     if (editingGroupTitle) {
+      takeSnapshot(SnapshotReason.GROUP_EDIT);
       // --- EDIT MODE ---
       // 1. Filter out words from the OLD group title (to be replaced/merged)
       // 2. Filter out words from OTHER groups (to be kept as is)
@@ -168,10 +692,12 @@ const App: React.FC = () => {
         const existingWord = oldGroupWords.find(w => w.text === text);
 
         if (existingWord) {
-          // Keep existing stats, just update title if it changed
-          mergedWords.push({
+          // Keep existing stats, just update title if it changed.
+          // Unchanged words stay the same object so they are not rewritten.
+          mergedWords.push(existingWord.groupTitle === title ? existingWord : {
             ...existingWord,
-            groupTitle: title
+            groupTitle: title,
+            updatedAt: now
           });
         } else {
           // It's a new word added during edit
@@ -185,17 +711,55 @@ const App: React.FC = () => {
             streak: 0,
             easeFactor: 2.5,
             interval: 0,
+            algorithm: settings.scheduler,
+            stability: 0,
+            difficulty: 0,
+            suspended: false,
             totalAttempts: 0,
             totalWrong: 0,
-            lastWrongAt: null
+            lastWrongAt: null,
+            updatedAt: now
           });
         }
       });
 
       setWords([...otherWords, ...mergedWords]);
+      // The exam date moves along with a renamed group
+      const examDate = settings.examDates[editingGroupTitle];
+      if (title !== editingGroupTitle && examDate !== undefined) {
+        const { [editingGroupTitle]: _ignored, ...examDates } = settings.examDates;
+        setSettings({ ...settings, examDates: { ...examDates, [title]: examDate } });
+      }
       setEditingGroupTitle(null);
       setView(AppView.DASHBOARD);
 
+    } else if (sharedGroup) {
+      // --- SHARED GROUP ---
+      // Saved for later; words the group already has are not added twice
+      const existing = new Set(words.filter(w => w.groupTitle === title).map(w => w.text));
+      const newItems: WordItem[] = [...new Set(inputWords)].filter(text => !existing.has(text)).map(text => ({
+        id: uuidv4(),
+        text,
+        groupTitle: title,
+        addedAt: now,
+        lastReviewed: null,
+        nextReview: now,
+        streak: 0,
+        easeFactor: 2.5,
+        interval: 0,
+        algorithm: settings.scheduler,
+        stability: 0,
+        difficulty: 0,
+        suspended: false,
+        totalAttempts: 0,
+        totalWrong: 0,
+        lastWrongAt: null,
+        updatedAt: now
+      }));
+      setWords([...words, ...newItems]);
+      setSharedGroup(null);
+      setView(AppView.DASHBOARD);
+
     } else {
       // --- CREATE MODE ---
       const newItems: WordItem[] = inputWords.map(text => ({
@@ -208,17 +772,21 @@ const App: React.FC = () => {
         streak: 0,
         easeFactor: 2.5,
         interval: 0,
+        algorithm: settings.scheduler,
+        stability: 0,
+        difficulty: 0,
+        suspended: false,
         totalAttempts: 0,
         totalWrong: 0,
-        lastWrongAt: null
+        lastWrongAt: null,
+        updatedAt: now
       }));
 
       const updatedWords = [...words, ...newItems];
       setWords(updatedWords);
 
       // Start dictation immediately with new words
-      setSessionWords(newItems);
-      setView(AppView.DICTATION);
+      startSession(newItems, SessionSource.NEW_WORDS, title);
     }
   };
 
@@ -251,7 +819,8 @@ const App: React.FC = () => {
             streak: 10,
             interval: 30,
             nextReview: Date.now() + (30 * 24 * 60 * 60 * 1000),
-            lastReviewed: Date.now()
+            lastReviewed: Date.now(),
+            updatedAt: Date.now()
           };
         } else {
           // Reset to new/review
@@ -260,7 +829,11 @@ const App: React.FC = () => {
             streak: 0,
             interval: 0,
             nextReview: Date.now(),
-            easeFactor: 2.5 // Reset ease factor too
+            easeFactor: 2.5, // Reset ease factor too
+            stability: 0,
+            difficulty: 0,
+            suspended: false,
+            updatedAt: Date.now()
           };
         }
       }
@@ -269,16 +842,109 @@ const App: React.FC = () => {
     setWords(updated);
   };
 
-  const handleDeleteWord = (targetWord: WordItem) => {
-    if (window.confirm(`确定删除 "${targetWord.text}" 吗？`)) {
-      setWords(prev => prev.filter(w => w.id !== targetWord.id));
+  const handleToggleSuspend = (targetWord: WordItem) => {
+    setWords(prev => prev.map(w => w.id === targetWord.id ? { ...w, suspended: !w.suspended, updatedAt: Date.now() } : w));
+  };
+
+  // Words of the group are pulled forward right away; past exams are dropped
+  const handleSetExamDate = (title: string, examDate: string | null) => {
+    const now = Date.now();
+    const examDates = Object.fromEntries(
+      Object.entries(settings.examDates).filter(([t, date]) => t !== title && daysUntilExam(date, now) >= 0)
+    );
+    if (examDate !== null) examDates[title] = examDate;
+    const next = { ...settings, examDates };
+    setSettings(next);
+    if (examDate !== null) {
+      setWords(prev => prev.map(w => (w.groupTitle || '默认词库') === title ? applyExamSchedule(w, next, now) : w));
+    }
+    setExamGroupTitle(null);
+  };
+
+  // Words move to a newly chosen algorithm right away, so its state is derived
+  // from the intervals they have now rather than from scratch
+  const handleUpdateSettings = (next: DictationSettings) => {
+    if (next.scheduler !== settings.scheduler) {
+      const now = Date.now();
+      setWords(prev => prev.map(w => switchAlgorithm(w, next.scheduler, now)));
     }
+    setSettings(next);
+  };
+
+  // --- Recycle Bin ---
+
+  // Soft delete: the words leave the list but are kept with their stats in the recycle bin
+  const moveToTrash = (removed: WordItem[], groupTitle: string, isGroup: boolean) => {
+    if (removed.length === 0) return;
+    const entry: TrashEntry = { id: uuidv4(), deletedAt: Date.now(), groupTitle, isGroup, words: removed };
+    const removedIds = new Set(removed.map(w => w.id));
+
+    setWords(prev => prev.filter(w => !removedIds.has(w.id)));
+    setTrash(prev => [entry, ...prev]);
+    setUndoEntry(entry);
+    saveTrashEntry(activeProfileId, entry).catch((err: Error) => {
+      console.error('Failed to save recycle bin:', err);
+      setStorageError(err.message);
+    });
+  };
+
+  const removeTrashEntries = (entries: TrashEntry[]) => {
+    const ids = new Set(entries.map(e => e.id));
+    setTrash(prev => prev.filter(e => !ids.has(e.id)));
+    setUndoEntry(prev => prev && ids.has(prev.id) ? null : prev);
+    deleteTrashEntries(activeProfileId, [...ids]).catch((err: Error) => {
+      console.error('Failed to update recycle bin:', err);
+      setStorageError(err.message);
+    });
+  };
+
+  const handleRestoreTrash = (entry: TrashEntry) => {
+    // A restore is newer than the deletion, also on synced devices
+    const now = Date.now();
+    setWords(prev => {
+      // Skip words that are back already (e.g. restored by an import)
+      const existingIds = new Set(prev.map(w => w.id));
+      return [...prev, ...entry.words.filter(w => !existingIds.has(w.id)).map(w => ({ ...w, updatedAt: now }))];
+    });
+    removeTrashEntries([entry]);
+  };
+
+  const handleDeleteWord = (targetWord: WordItem) => {
+    moveToTrash([targetWord], targetWord.groupTitle || '默认词库', false);
   };
 
   const handleStartGlobalReview = () => {
     if (allDueWords.length === 0) return;
-    setSessionWords(allDueWords);
-    setView(AppView.DICTATION);
+    startSession(allDueWords, SessionSource.GLOBAL_REVIEW);
+  };
+
+  // Only what is left of today's plan, so it can be done in several short sessions
+  const handleStartDailyPlan = () => {
+    if (!planProgress || planProgress.remaining.length === 0) return;
+    startSession(planProgress.remaining, SessionSource.DAILY_PLAN);
+  };
+
+  // Review words of a later day today, e.g. before a test
+  const handlePullForward = (dayWords: WordItem[]) => {
+    const plan = updateDailyPlan(dailyPlan, words, settings);
+    const next = pullIntoPlan(plan, dayWords.map(w => w.id));
+    setDailyPlan(next);
+    saveDailyPlan(activeProfileId, next).catch((err: Error) => {
+      console.error('Failed to save daily plan:', err);
+      setStorageError(err.message);
+    });
+    setView(AppView.DASHBOARD);
+  };
+
+  // Leeches get their own slower practice, suspended or not
+  const handleStartLeechPractice = () => {
+    if (leechWords.length === 0) return;
+    startSession(leechWords, SessionSource.LEECH);
+  };
+
+  const handleStartWeakChars = (charWords: WordItem[]) => {
+    if (charWords.length === 0) return;
+    startSession(charWords, SessionSource.WEAK_CHARS);
   };
 
   const handleSmartReview = () => {
@@ -290,7 +956,7 @@ const App: React.FC = () => {
     const now = Date.now();
     const ONE_DAY = 24 * 60 * 60 * 1000;
 
-    const candidates = words.filter(w => (w.totalWrong || 0) > 0);
+    const candidates = words.filter(w => !w.suspended && (w.totalWrong || 0) > 0);
 
     if (candidates.length === 0) {
       alert("您还没有错词记录，太棒了！继续保持！");
@@ -319,8 +985,7 @@ const App: React.FC = () => {
     const limit = settings.maxReviewBatchSize || 10;
     const selected = sortedCandidates.slice(0, limit);
 
-    setSessionWords(selected);
-    setView(AppView.DICTATION);
+    startSession(selected, SessionSource.SMART_REVIEW);
   };
 
   const handleReviewGroup = (groupWords: WordItem[], onlyErrors: boolean = false) => {
@@ -328,7 +993,7 @@ const App: React.FC = () => {
 
     if (onlyErrors) {
       const now = Date.now();
-      targetWords = groupWords.filter(w => w.nextReview <= now);
+      targetWords = groupWords.filter(w => !w.suspended && w.nextReview <= now);
 
       if (targetWords.length === 0) {
         alert("这个单元没有需要复习的错词！");
@@ -336,90 +1001,349 @@ const App: React.FC = () => {
       }
     }
 
-    setSessionWords(targetWords);
-    setView(AppView.DICTATION);
+    startSession(targetWords, SessionSource.GROUP, groupWords[0]?.groupTitle || '默认词库');
   };
 
   const handleDeleteGroup = (title: string) => {
-    if (window.confirm(`确定要删除 "${title}" 及其所有词语吗？`)) {
-      setWords(prev => prev.filter(w => (w.groupTitle || '默认词库') !== title));
+    if (window.confirm(`确定要删除 "${title}" 及其所有词语吗？删除后可在回收站恢复。`)) {
+      takeSnapshot(SnapshotReason.GROUP_DELETE);
+      moveToTrash(words.filter(w => (w.groupTitle || '默认词库') === title), title, true);
+      if (settings.examDates[title] !== undefined) {
+        const { [title]: _ignored, ...examDates } = settings.examDates;
+        setSettings({ ...settings, examDates });
+      }
     }
   };
 
-  // Updated to accept partial results
-  const handleDictationComplete = (actualWords?: WordItem[]) => {
-    if (actualWords && actualWords.length > 0) {
-      setSessionWords(actualWords);
+  // Only the words that were read out are corrected
+  const handleDictationComplete = (played: WordItem[], replays: Record<string, number>) => {
+    if (played.length === 0) {
+      setCurrentSession(null);
+      persistActiveSession(null);
+      setView(AppView.DASHBOARD);
+      return;
+    }
+    setSessionWords(played);
+    setSessionReplays(replays);
+    if (currentSession) {
+      persistActiveSession({
+        ...currentSession,
+        step: 'CORRECTION',
+        wordIds: played.map(w => w.id),
+        index: played.length,
+        played: played.map(w => w.id),
+        replays,
+        settings: dictationSetup.settings,
+        savedAt: Date.now()
+      });
     }
     setView(AppView.CORRECTION);
   };
 
-  const handleCorrectionFinish = (results: { id: string; correct: boolean }[]) => {
-    setWords(prevWords => {
-      const updatedWords = prevWords.map(word => {
-        const result = results.find(r => r.id === word.id);
-        if (result) {
-          return calculateNextReview(word, result.correct);
-        }
-        return word;
+  // Append to the review log in memory and on disk
+  const recordReviewEvents = (events: ReviewEvent[]) => {
+    if (events.length === 0) return;
+    setReviewEvents(prev => [...prev, ...events]);
+    appendReviewEvents(activeProfileId, events).catch((err: Error) => {
+      console.error('Failed to save review log:', err);
+      unsavedEventsRef.current = [...unsavedEventsRef.current, ...events];
+      setStorageError(err.message);
+    });
+  };
+
+  // Store the corrected dictation in the session history
+  const recordSession = (results: CorrectionResult[]) => {
+    if (!currentSession) return;
+    const resultById = new Map(results.map(r => [r.id, r]));
+    const sessionResults = sessionWords
+      .filter(w => resultById.has(w.id))
+      .map(w => {
+        const { correct, grade } = resultById.get(w.id)!;
+        return { wordId: w.id, text: w.text, correct, grade };
       });
-      return updatedWords;
+    if (sessionResults.length === 0) return;
+
+    const record: SessionRecord = {
+      ...currentSession,
+      endedAt: Date.now(),
+      // As played, not as set now
+      order: dictationSetup.settings.order,
+      results: sessionResults,
+      // Same score as shown in CorrectionView
+      score: Math.round((sessionResults.filter(r => r.correct).length / sessionResults.length) * 100)
+    };
+    setSessions(prev => [record, ...prev]);
+    setCurrentSession(null);
+    saveSession(activeProfileId, record).catch((err: Error) => {
+      console.error('Failed to save session:', err);
+      setStorageError(err.message);
     });
+  };
+
+  const handleCorrectionFinish = (results: CorrectionResult[]) => {
+    const events: ReviewEvent[] = [];
+    const updatedWords = words.map(word => {
+      const result = results.find(r => r.id === word.id);
+      if (result) {
+        // Before an exam of the word's group, reviews come sooner than the scheduler says
+        let reviewed = applyExamSchedule(scheduleReview(word, result.grade, settings.scheduler), settings);
+        // A word that just became a leech leaves regular reviews
+        if (settings.suspendLeeches && !word.suspended && !isLeech(word, settings) && isLeech(reviewed, settings)) {
+          reviewed = { ...reviewed, suspended: true };
+        }
+        events.push({
+          id: uuidv4(),
+          wordId: word.id,
+          timestamp: reviewed.lastReviewed ?? Date.now(),
+          correct: result.correct,
+          grade: result.grade,
+          ...(result.wrongChars.length > 0 && { wrongChars: result.wrongChars }),
+          sessionId: currentSession?.id ?? '',
+          previousInterval: word.interval,
+          newInterval: reviewed.interval
+        });
+        return reviewed;
+      }
+      return word;
+    });
+    setWords(updatedWords);
+    recordReviewEvents(events);
+    recordSession(results);
+    persistActiveSession(null);
     setView(AppView.DASHBOARD);
   };
 
+  // Start a new dictation with the words of an earlier session, in the same order
+  const handleRerunSession = (session: SessionRecord) => {
+    const byId = new Map(words.map(w => [w.id, w]));
+    const targetWords = session.results
+      .map(r => byId.get(r.wordId))
+      .filter((w): w is WordItem => !!w);
+    if (targetWords.length === 0) {
+      alert('这次听写的词语都已被删除');
+      return;
+    }
+    startSession(targetWords, SessionSource.RERUN, session.groupTitle);
+  };
+
   // Import/Export Handlers
-  const handleExportData = () => {
-    const data = {
-      version: 1,
-      exportDate: new Date().toISOString(),
-      words: words,
-      // Exclude TTS engine (voice) from export per requirement
-      settings: (() => {
-        const { voice, ...rest } = settings;
-        return rest;
-      })()
+  const handleExportData = (allProfiles: boolean, encrypt: boolean) => {
+    if (encrypt) {
+      setPassphraseError(null);
+      setPassphraseRequest({ kind: 'export', allProfiles });
+    } else {
+      exportBackup(allProfiles, null);
+    }
+  };
+
+  // Download a backup of the active profile or of all profiles, encrypted when a passphrase is given
+  const exportBackup = async (allProfiles: boolean, passphrase: string | null) => {
+    // Exclude TTS engine (voice) from export per requirement
+    const toBackup = (
+      profile: LearnerProfile,
+      profileWords: WordItem[],
+      profileSettings: DictationSettings,
+      reviewLog: ReviewEvent[]
+    ): ProfileBackup => {
+      const { voice, ...exportSettings } = profileSettings;
+      return { profile, words: profileWords, settings: exportSettings, reviewLog };
     };
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `dictation-backup-${new Date().toISOString().slice(0, 10)}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+
+    const activeProfile = profiles.find(p => p.id === activeProfileId);
+    if (!activeProfile) return;
+
+    let backups: ProfileBackup[];
+    try {
+      backups = await Promise.all(profiles
+        .filter(p => allProfiles || p.id === activeProfileId)
+        .map(async p => p.id === activeProfileId
+          ? toBackup(p, words, settings, reviewEvents)
+          : toBackup(p, await loadWords(p.id), await loadSettings(p.id), await loadReviewEvents(p.id))));
+    } catch (err) {
+      console.error('Export Error:', err);
+      alert(`导出失败：${errorMessage(err)}`);
+      return;
+    }
+
+    const json = JSON.stringify(createBackup(backups), null, 2);
+    const baseName = `dictation-backup-${allProfiles ? 'all' : activeProfile.name}-${new Date().toISOString().slice(0, 10)}`;
+    if (passphrase === null) {
+      downloadFile(json, `${baseName}.json`, 'application/json');
+    } else {
+      downloadFile(await encryptBackup(json, passphrase), `${baseName}.encrypted.json`, 'application/json');
+    }
+  };
+
+  const handleSubmitPassphrase = async (passphrase: string) => {
+    if (!passphraseRequest) return;
+    setPassphraseBusy(true);
+    setPassphraseError(null);
+    try {
+      if (passphraseRequest.kind === 'export') {
+        await exportBackup(passphraseRequest.allProfiles, passphrase);
+      } else {
+        const json = await decryptBackup(passphraseRequest.text, passphrase);
+        setPendingImport({ fileName: passphraseRequest.fileName, sources: parseBackup(json) });
+      }
+      setPassphraseRequest(null);
+    } catch (err) {
+      // Keep the dialog open, e.g. to retry a mistyped passphrase
+      console.error('Passphrase Error:', err);
+      setPassphraseError(errorMessage(err));
+    } finally {
+      setPassphraseBusy(false);
+    }
+  };
+
+  // Export one group (or all groups when groupTitle is null) as a word table
+  const handleExportTable = (format: TableFormat, groupTitle: string | null) => {
+    const exportWords = groupTitle === null ? words : words.filter(w => (w.groupTitle || '默认词库') === groupTitle);
+    if (exportWords.length === 0) {
+      alert('没有可导出的词语');
+      return;
+    }
+    const { extension, mimeType } = TABLE_FILE_INFO[format];
+    downloadFile(
+      wordsToTable(exportWords, format),
+      `${groupTitle ?? '全部词库'}-${new Date().toISOString().slice(0, 10)}.${extension}`,
+      `${mimeType};charset=utf-8`
+    );
   };
 
   const handleImportData = (file: File) => {
+    if (!file.name.toLowerCase().endsWith('.json')) {
+      handleImportTable(file);
+      return;
+    }
+
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
         const result = e.target?.result;
-        if (typeof result === 'string') {
-          const data = JSON.parse(result);
-
-          let importedWordsCount = 0;
-
-          if (data.words && Array.isArray(data.words)) {
-            setWords(data.words);
-            importedWordsCount = data.words.length;
-          }
-          if (data.settings && typeof data.settings === 'object') {
-            const { voice: _ignored, ...restSettings } = data.settings;
-            setSettings(prev => ({ ...prev, ...restSettings }));
-          }
-
-          alert(`成功导入 ${importedWordsCount} 个词语！`);
+        if (typeof result === 'string' && isEncryptedBackup(result)) {
+          setPassphraseError(null);
+          setPassphraseRequest({ kind: 'import', fileName: file.name, text: result });
+        } else if (typeof result === 'string') {
+          // Upgrades old backup versions and repairs malformed records
+          const sources = parseBackup(result);
+
+          // Let the user pick the profile and replace/new groups/merge in ImportDialog
+          setPendingImport({ fileName: file.name, sources });
         }
       } catch (err) {
         console.error("Import Error:", err);
-        alert('导入失败：文件格式不正确');
+        alert(err instanceof SyntaxError ? '导入失败：文件格式不正确' : `导入失败：${errorMessage(err)}`);
       }
     };
     reader.readAsText(file);
   };
 
+  const handleImportTable = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const result = e.target?.result;
+      if (!(result instanceof ArrayBuffer)) return;
+      // Excel on Chinese Windows saves GBK; decodeText handles both
+      const text = decodeText(result);
+      const rows = parseDelimited(text, detectDelimiter(text));
+      if (rows.length === 0) {
+        alert('导入失败：文件中没有任何数据');
+        return;
+      }
+      setPendingTable({ fileName: file.name, rows });
+    };
+    reader.readAsArrayBuffer(file);
+  };
+
+  // Mapped table rows continue into the regular import dialog
+  const handleConfirmTable = (result: WordsValidationResult) => {
+    if (!pendingTable) return;
+    setPendingImport({
+      fileName: pendingTable.fileName,
+      sources: [{ ...result, profile: null, settings: null, settingsIssues: [], reviewLog: [] }]
+    });
+    setPendingTable(null);
+  };
+
+  // The voice depends on the device, so it is never taken from a backup
+  const importableSettings = (source: ParsedProfileBackup): Partial<DictationSettings> => {
+    const { voice: _ignored, ...restSettings } = source.settings || {};
+    return restSettings;
+  };
+
+  const handleConfirmImport = (source: ParsedProfileBackup, plan: ImportPlan, includeSettings: boolean) => {
+    takeSnapshot(SnapshotReason.IMPORT);
+    setWords(plan.words);
+    recordReviewEvents(remapReviewEvents(reviewEvents, source.reviewLog, plan.idMap));
+    if (includeSettings) {
+      setSettings(prev => ({ ...prev, ...importableSettings(source) }));
+    }
+    setPendingImport(null);
+    alert(`导入完成！\n有效记录 ${source.words.length} 条（修复 ${source.repairedCount} 条），跳过 ${source.rejectedCount} 条`);
+  };
+
+  // Import every profile in the file into the local profile with the same id or
+  // name, creating the ones that do not exist yet
+  const handleConfirmImportAll = async (mode: ImportMode, includeSettings: boolean) => {
+    if (!pendingImport) return;
+    const { sources } = pendingImport;
+    setPendingImport(null);
+
+    let knownProfiles = profiles;
+    // Several profiles in the file may land in the active one
+    let activeWords = words;
+    let activeEvents = reviewEvents;
+    try {
+      for (const source of sources) {
+        let target = findTargetProfile(source.profile, knownProfiles);
+        if (!target) {
+          target = {
+            id: uuidv4(),
+            name: source.profile?.name || '新的孩子',
+            avatar: source.profile?.avatar ?? null,
+            createdAt: Date.now()
+          };
+          await saveProfile(target);
+          knownProfiles = [...knownProfiles, target];
+        }
+
+        // The active profile is saved as it was before the first file profile lands in it
+        if (target.id !== activeProfileId || activeWords === words) {
+          await takeSnapshot(SnapshotReason.IMPORT, target.id);
+        }
+
+        if (target.id === activeProfileId) {
+          const plan = planImport(activeWords, source.words, mode);
+          const newEvents = remapReviewEvents(activeEvents, source.reviewLog, plan.idMap);
+          activeWords = plan.words;
+          activeEvents = [...activeEvents, ...newEvents];
+          setWords(activeWords);
+          recordReviewEvents(newEvents);
+          if (includeSettings) setSettings(prev => ({ ...prev, ...importableSettings(source) }));
+        } else {
+          const plan = planImport(await loadWords(target.id), source.words, mode);
+          await saveWords(target.id, plan.words);
+          await appendReviewEvents(
+            target.id,
+            remapReviewEvents(await loadReviewEvents(target.id), source.reviewLog, plan.idMap)
+          );
+          if (includeSettings && source.settings) {
+            await saveSettings(target.id, { ...(await loadSettings(target.id)), ...importableSettings(source) });
+          }
+        }
+      }
+      setProfiles(await loadProfiles());
+    } catch (err) {
+      console.error('Import Error:', err);
+      setStorageError(errorMessage(err));
+      return;
+    }
+
+    const total = sources.reduce((sum, s) => sum + s.words.length, 0);
+    const rejected = sources.reduce((sum, s) => sum + s.rejectedCount, 0);
+    alert(`导入完成！\n${sources.length} 个孩子，有效记录 ${total} 条，跳过 ${rejected} 条`);
+  };
+
   // Helper for date formatting
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleString('zh-CN', {
@@ -432,6 +1356,14 @@ const App: React.FC = () => {
 
   // Render Views
   const renderContent = () => {
+    if (!isLoaded) {
+      return (
+        <div className="flex-1 flex items-center justify-center text-gray-400 font-medium">
+          正在加载数据...
+        </div>
+      );
+    }
+
     switch (view) {
       case AppView.INPUT:
         let initialTitle = undefined;
@@ -441,6 +1373,9 @@ const App: React.FC = () => {
           initialWords = words
             .filter(w => (w.groupTitle || '默认词库') === editingGroupTitle)
             .map(w => w.text);
+        } else if (sharedGroup) {
+          initialTitle = sharedGroup.title;
+          initialWords = sharedGroup.words;
         }
 
         return (
@@ -448,10 +1383,12 @@ const App: React.FC = () => {
             onStart={handleSaveWords}
             onCancel={() => {
               setEditingGroupTitle(null);
+              setSharedGroup(null);
               setView(AppView.DASHBOARD);
             }}
             initialTitle={initialTitle}
             initialWords={initialWords}
+            isShared={!!sharedGroup}
             settings={settings}
           />
         );
@@ -460,10 +1397,44 @@ const App: React.FC = () => {
         return (
           <SettingsView
             settings={settings}
-            onUpdateSettings={setSettings}
+            profileName={profiles.find(p => p.id === activeProfileId)?.name || ''}
+            profileCount={profiles.length}
+            onUpdateSettings={handleUpdateSettings}
             onBack={() => setView(AppView.DASHBOARD)}
             onExport={handleExportData}
             onImport={handleImportData}
+            groupTitles={groupedWords.map(([title]) => title)}
+            onExportTable={handleExportTable}
+            trashCount={trash.length}
+            onOpenTrash={() => setView(AppView.TRASH)}
+            snapshotCount={snapshots.length}
+            onOpenSnapshots={() => setView(AppView.SNAPSHOTS)}
+            syncConfig={syncConfig}
+            syncStatus={syncStatus}
+            onSaveSyncConfig={handleSaveSyncConfig}
+            onSyncNow={() => syncConfig && runSync(syncConfig)}
+          />
+        );
+
+      case AppView.SNAPSHOTS:
+        return (
+          <SnapshotView
+            snapshots={snapshots}
+            keepCount={settings.snapshotCount}
+            onBack={() => setView(AppView.SETTINGS)}
+            onCreate={() => takeSnapshot(SnapshotReason.MANUAL)}
+            onRestore={handleRestoreSnapshot}
+          />
+        );
+
+      case AppView.TRASH:
+        return (
+          <TrashView
+            entries={trash}
+            retentionDays={settings.trashRetentionDays}
+            onBack={() => setView(AppView.SETTINGS)}
+            onRestore={handleRestoreTrash}
+            onPurge={removeTrashEntries}
           />
         );
 
@@ -473,12 +1444,15 @@ const App: React.FC = () => {
           <WordListView
             title={viewingGroupTitle || '词库列表'}
             words={listWords}
+            reviewEvents={reviewEvents}
             onBack={() => {
               setViewingGroupTitle(null);
               setView(AppView.DASHBOARD);
             }}
             onUpdateStatus={handleUpdateWordStatus}
+            onToggleSuspend={handleToggleSuspend}
             onDeleteWord={handleDeleteWord}
+            leechIds={leechIds}
           />
         );
 
@@ -487,9 +1461,12 @@ const App: React.FC = () => {
           <WordListView
             title="全部需复习的词"
             words={allDueWords}
+            reviewEvents={reviewEvents}
             onBack={() => setView(AppView.DASHBOARD)}
             onUpdateStatus={handleUpdateWordStatus}
+            onToggleSuspend={handleToggleSuspend}
             onDeleteWord={handleDeleteWord}
+            leechIds={leechIds}
           />
         );
 
@@ -498,9 +1475,41 @@ const App: React.FC = () => {
           <WordListView
             title="错词记录"
             words={hasHistoryWords}
+            reviewEvents={reviewEvents}
             onBack={() => setView(AppView.DASHBOARD)}
             onUpdateStatus={handleUpdateWordStatus}
+            onToggleSuspend={handleToggleSuspend}
             onDeleteWord={handleDeleteWord}
+            leechIds={leechIds}
+          />
+        );
+
+      case AppView.HISTORY:
+        return (
+          <SessionHistoryView
+            sessions={sessions}
+            words={words}
+            onBack={() => setView(AppView.DASHBOARD)}
+            onRerun={handleRerunSession}
+          />
+        );
+
+      case AppView.FORECAST:
+        return (
+          <ForecastView
+            words={words}
+            onBack={() => setView(AppView.DASHBOARD)}
+            onPullForward={handlePullForward}
+          />
+        );
+
+      case AppView.WEAK_CHARS:
+        return (
+          <WeakCharsView
+            words={words}
+            reviewEvents={reviewEvents}
+            onBack={() => setView(AppView.DASHBOARD)}
+            onStart={handleStartWeakChars}
           />
         );
 
@@ -508,7 +1517,10 @@ const App: React.FC = () => {
         return (
           <DictationSession
             words={sessionWords}
-            settings={settings}
+            settings={dictationSetup.settings}
+            speechRate={dictationSetup.speechRate}
+            resume={dictationSetup.resume}
+            onProgress={handleDictationProgress}
             onComplete={handleDictationComplete}
             onCancel={() => setView(AppView.DASHBOARD)}
             onOpenSettings={() => setView(AppView.SETTINGS)}
@@ -516,7 +1528,15 @@ const App: React.FC = () => {
         );
 
       case AppView.CORRECTION:
-        return <CorrectionView words={sessionWords} onFinish={handleCorrectionFinish} />;
+        return (
+          <CorrectionView
+            words={sessionWords}
+            leechIds={leechIds}
+            replays={sessionReplays}
+            replaysLowerGrade={settings.replaysLowerGrade}
+            onFinish={handleCorrectionFinish}
+          />
+        );
 
       case AppView.DASHBOARD:
       default:
@@ -531,21 +1551,15 @@ const App: React.FC = () => {
               {/* Content */}
               <div className="relative z-10 flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
                 <div className="flex items-center gap-4">
-                  {/* Avatar */}
-                  <div
-                    className="bg-white/20 backdrop-blur-sm p-1 rounded-2xl cursor-pointer hover:bg-white/30 transition-all"
-                    onClick={handleAvatarClick}
-                  >
-                    <div className="w-12 h-12 rounded-xl overflow-hidden bg-white/10 flex items-center justify-center">
-                      <img src={avatar} alt="Avatar" className="w-full h-full object-cover" />
-                    </div>
-                  </div>
-                  <input
-                    ref={avatarInputRef}
-                    type="file"
-                    accept="image/*"
-                    onChange={handleAvatarChange}
-                    className="hidden"
+                  {/* Avatar / Profile Switcher */}
+                  <ProfileSwitcher
+                    profiles={profiles}
+                    activeProfileId={activeProfileId}
+                    onSwitch={handleSwitchProfile}
+                    onAdd={handleAddProfile}
+                    onRename={handleRenameProfile}
+                    onDelete={handleDeleteProfile}
+                    onChangeAvatar={handleChangeAvatar}
                   />
 
                   <div>
@@ -565,6 +1579,15 @@ const App: React.FC = () => {
                     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" /></svg>
                     添加词库
                   </button>
+                  <button onClick={handleOpenForecast} className="p-3 bg-white/20 backdrop-blur-sm rounded-xl hover:bg-white/30 transition-all" title="复习预报">
+                    <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
+                  </button>
+                  <button onClick={handleOpenWeakChars} className="p-3 bg-white/20 backdrop-blur-sm rounded-xl hover:bg-white/30 transition-all" title="薄弱汉字">
+                    <span className="w-6 h-6 flex items-center justify-center text-white text-lg font-bold leading-none">字</span>
+                  </button>
+                  <button onClick={handleOpenHistory} className="p-3 bg-white/20 backdrop-blur-sm rounded-xl hover:bg-white/30 transition-all" title="听写记录">
+                    <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" /></svg>
+                  </button>
                   <button onClick={handleOpenSettings} className="p-3 bg-white/20 backdrop-blur-sm rounded-xl hover:bg-white/30 transition-all">
                     <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
                   </button>
@@ -572,6 +1595,14 @@ const App: React.FC = () => {
               </div>
             </header>
 
+            {/* Interrupted Dictation */}
+            {activeSession && (
+              <ResumeSessionCard session={activeSession} onResume={handleResumeSession} onDiscard={handleDiscardSession} />
+            )}
+
+            {/* Today's Plan */}
+            {planProgress && <DailyPlanCard progress={planProgress} onStart={handleStartDailyPlan} />}
+
             {/* Global Stats & Review */}
             <div className="bg-indigo-600 rounded-3xl p-5 md:p-8 text-white shadow-xl shadow-indigo-200 relative overflow-hidden">
               <div className="relative z-10 flex flex-col items-start gap-6">
@@ -623,6 +1654,17 @@ const App: React.FC = () => {
                       </button>
                     </div>
                   )}
+
+                  {leechWords.length > 0 && (
+                    <button
+                      onClick={handleStartLeechPractice}
+                      className="sm:flex-none py-3 px-6 bg-purple-500 text-white border border-purple-400 rounded-xl font-bold text-lg shadow-lg hover:bg-purple-600 transition-transform active:scale-95 flex items-center justify-center gap-2"
+                      title="慢速朗读、每个词读三遍，写错后要抄写"
+                    >
+                      攻克难词
+                      <span className="bg-white text-purple-600 text-xs font-bold rounded-full px-2 py-0.5">{leechWords.length}</span>
+                    </button>
+                  )}
                 </div>
               </div>
               {/* Decoration */}
@@ -645,10 +1687,12 @@ const App: React.FC = () => {
               ) : (
                 <div className="flex flex-col gap-4">
                   {groupedWords.map(([title, groupWords]) => {
-                    const groupDue = groupWords.filter(w => w.nextReview <= Date.now()).length;
+                    const groupDue = groupWords.filter(w => !w.suspended && w.nextReview <= Date.now()).length;
                     const groupLearned = groupWords.filter(w => w.streak > 3).length;
                     const percent = Math.round((groupLearned / groupWords.length) * 100);
                     const creationTime = groupWords[0] ? formatDate(groupWords[0].addedAt) : '未知';
+                    const examDate = getUpcomingExam(settings, title);
+                    const examDays = examDate === null ? null : daysUntilExam(examDate);
 
                     return (
                       <div key={title} className="bg-white p-4 md:p-6 rounded-2xl shadow-sm border border-gray-100 flex flex-col md:flex-row md:items-center justify-between gap-6 hover:shadow-md transition-shadow relative group">
@@ -657,6 +1701,14 @@ const App: React.FC = () => {
                         <div className="flex-1 min-w-0">
                           <div className="flex items-center gap-3 mb-2">
                             <h4 className="text-lg md:text-xl font-bold text-gray-800 truncate" title={title}>{title}</h4>
+                            {examDays !== null && (
+                              <span
+                                className={`text-xs font-bold px-2 py-1 rounded-md whitespace-nowrap ${examDays <= 3 ? 'bg-orange-100 text-orange-600' : 'bg-indigo-50 text-indigo-600'}`}
+                                title={`考试日期: ${examDate}`}
+                              >
+                                {examDays === 0 ? '今天考试' : `距考试 ${examDays} 天`}
+                              </span>
+                            )}
                             <span className="text-xs text-gray-400 bg-gray-50 px-2 py-1 rounded-md whitespace-nowrap hidden sm:inline-block">
                               创建于: {creationTime}
                             </span>
@@ -709,6 +1761,20 @@ const App: React.FC = () => {
                             >
                               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" /></svg>
                             </button>
+                            <button
+                              onClick={() => setExamGroupTitle(title)}
+                              className={`p-2 rounded-lg transition-colors ${examDate ? 'text-orange-500 hover:bg-orange-50' : 'text-gray-400 hover:text-orange-500 hover:bg-orange-50'}`}
+                              title="考试日期"
+                            >
+                              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                            </button>
+                            <button
+                              onClick={() => setSharingGroupTitle(title)}
+                              className="p-2 text-gray-400 hover:text-green-500 hover:bg-green-50 rounded-lg transition-colors"
+                              title="分享"
+                            >
+                              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" /></svg>
+                            </button>
                             <button
                               onClick={() => handleEditGroup(title)}
                               className="p-2 text-gray-400 hover:text-indigo-500 hover:bg-indigo-50 rounded-lg transition-colors"
@@ -739,8 +1805,100 @@ const App: React.FC = () => {
   return (
     <div className="min-h-screen bg-gray-50 text-gray-900 font-sans selection:bg-indigo-100 selection:text-indigo-800">
       <main className="w-full px-2 md:px-4 py-4 md:py-8 min-h-screen flex flex-col">
+        {/* Persistence Error Banner */}
+        {storageError && (
+          <div className="mb-4 p-3 md:p-4 bg-red-50 border border-red-200 rounded-2xl flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div className="flex items-start gap-2 text-red-700 text-sm font-medium">
+              <svg className="w-5 h-5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
+              <span>{storageError}</span>
+            </div>
+            <div className="flex gap-2 flex-shrink-0">
+              <button
+                onClick={() => handleExportData(false, false)}
+                className="px-3 py-1.5 text-sm rounded-lg border border-red-200 text-red-600 bg-white hover:bg-red-50"
+              >
+                导出备份
+              </button>
+              <button
+                onClick={handleRetrySave}
+                className="px-3 py-1.5 text-sm rounded-lg bg-red-600 text-white font-bold hover:bg-red-700"
+              >
+                重试保存
+              </button>
+            </div>
+          </div>
+        )}
         {renderContent()}
       </main>
+
+      {/* Undo Toast */}
+      {undoEntry && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-4 px-5 py-3 bg-gray-900 text-white rounded-2xl shadow-2xl text-sm max-w-[90vw]">
+          <span className="truncate">
+            已删除{undoEntry.isGroup ? `词库 "${undoEntry.groupTitle}"` : ` "${undoEntry.words[0]?.text}"`}
+          </span>
+          <button
+            onClick={() => handleRestoreTrash(undoEntry)}
+            className="font-bold text-indigo-300 hover:text-indigo-200 whitespace-nowrap"
+          >
+            撤销
+          </button>
+        </div>
+      )}
+
+      {sharingGroupTitle !== null && (
+        <ShareDialog
+          title={sharingGroupTitle}
+          words={words.filter(w => (w.groupTitle || '默认词库') === sharingGroupTitle).map(w => w.text)}
+          onClose={() => setSharingGroupTitle(null)}
+        />
+      )}
+
+      {examGroupTitle !== null && (
+        <ExamDateDialog
+          groupTitle={examGroupTitle}
+          examDate={getUpcomingExam(settings, examGroupTitle)}
+          reviewCount={settings.examReviewCount}
+          onSave={(examDate) => handleSetExamDate(examGroupTitle, examDate)}
+          onCancel={() => setExamGroupTitle(null)}
+        />
+      )}
+
+      {passphraseRequest && (
+        <PassphraseDialog
+          title={passphraseRequest.kind === 'export' ? '加密备份' : '解密备份'}
+          description={passphraseRequest.kind === 'export'
+            ? '设置一个密码，导出的文件只有输入这个密码才能打开'
+            : `${passphraseRequest.fileName} 已加密，请输入导出时设置的密码`}
+          confirm={passphraseRequest.kind === 'export'}
+          error={passphraseError}
+          busy={passphraseBusy}
+          onSubmit={handleSubmitPassphrase}
+          onCancel={() => setPassphraseRequest(null)}
+        />
+      )}
+
+      {pendingTable && (
+        <TableImportDialog
+          fileName={pendingTable.fileName}
+          rows={pendingTable.rows}
+          onConfirm={handleConfirmTable}
+          onCancel={() => setPendingTable(null)}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportDialog
+          fileName={pendingImport.fileName}
+          profiles={profiles}
+          activeProfileId={activeProfileId}
+          existingWords={words}
+          sources={pendingImport.sources}
+          onConfirm={handleConfirmImport}
+          onConfirmAll={handleConfirmImportAll}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
     </div>
   );
 };
@@ -1,31 +1,81 @@
 import React, { useState } from 'react';
-import { WordItem } from '../types';
+import { WordItem, ReviewGrade, CorrectionResult } from '../types';
+import { isPassingGrade } from '../services/schedulerService';
+import { LEECH_COPY_COUNT } from '../services/leechService';
+import { wordCharacters } from '../services/characterService';
 
 interface CorrectionViewProps {
   words: WordItem[];
-  onFinish: (results: { id: string; correct: boolean }[]) => void;
+  leechIds: Set<string>; // Missed leeches have to be copied out before saving
+  replays: Record<string, number>; // Extra hearings per word during the dictation
+  replaysLowerGrade: boolean; // Replayed words start as "犹豫" instead of "正确"
+  onFinish: (results: CorrectionResult[]) => void;
 }
 
-const CorrectionView: React.FC<CorrectionViewProps> = ({ words, onFinish }) => {
+// From worst to best; the grade decides how soon the word comes back
+const GRADE_OPTIONS: { grade: ReviewGrade; label: string; hint: string; activeClass: string }[] = [
+  { grade: ReviewGrade.WRONG, label: '写错', hint: '写错或写不出来', activeClass: 'bg-red-500 text-white shadow-md ring-2 ring-red-200' },
+  { grade: ReviewGrade.PARTLY_WRONG, label: '错一点', hint: '只写错个别字', activeClass: 'bg-orange-500 text-white shadow-md ring-2 ring-orange-200' },
+  { grade: ReviewGrade.HESITANT, label: '犹豫', hint: '写对了，但想了很久或看了提示', activeClass: 'bg-amber-400 text-white shadow-md ring-2 ring-amber-200' },
+  { grade: ReviewGrade.CORRECT, label: '正确', hint: '顺利写对', activeClass: 'bg-green-500 text-white shadow-md ring-2 ring-green-200' },
+  { grade: ReviewGrade.EASY, label: '轻松', hint: '不假思索就写对', activeClass: 'bg-emerald-600 text-white shadow-md ring-2 ring-emerald-200' },
+];
+
+const CorrectionView: React.FC<CorrectionViewProps> = ({ words, leechIds, replays, replaysLowerGrade, onFinish }) => {
+  const passingGrade = (id: string) =>
+    replaysLowerGrade && replays[id] ? ReviewGrade.HESITANT : ReviewGrade.CORRECT;
+
   // Default all to correct
-  const [results, setResults] = useState<Record<string, boolean>>(
-    Object.fromEntries(words.map(w => [w.id, true]))
+  const [grades, setGrades] = useState<Record<string, ReviewGrade>>(
+    Object.fromEntries(words.map(w => [w.id, passingGrade(w.id)]))
   );
 
-  const setStatus = (id: string, status: boolean) => {
-    setResults(prev => ({ ...prev, [id]: status }));
+  // Characters marked as miswritten, per word; only kept for missed words
+  const [wrongChars, setWrongChars] = useState<Record<string, string[]>>({});
+
+  // Missed leeches whose copy-writing has been ticked off
+  const [copiedIds, setCopiedIds] = useState<Set<string>>(new Set());
+
+  const needsCopy = (id: string) => leechIds.has(id) && !isPassingGrade(grades[id]);
+  const pendingCopies = words.filter(w => needsCopy(w.id) && !copiedIds.has(w.id)).length;
+
+  const toggleCopied = (id: string) => {
+    setCopiedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleWrongChar = (id: string, char: string) => {
+    setWrongChars(prev => {
+      const current = prev[id] ?? [];
+      return { ...prev, [id]: current.includes(char) ? current.filter(c => c !== char) : [...current, char] };
+    });
   };
 
-  const setAll = (correct: boolean) => {
-    setResults(Object.fromEntries(words.map(w => [w.id, correct])));
+  const setGrade = (id: string, grade: ReviewGrade) => {
+    setGrades(prev => ({ ...prev, [id]: grade }));
+  };
+
+  const setAll = (grade: ReviewGrade) => {
+    setGrades(Object.fromEntries(words.map(w => [w.id, grade === ReviewGrade.CORRECT ? passingGrade(w.id) : grade])));
   };
 
   const handleFinish = () => {
-    const finalResults = Object.entries(results).map(([id, correct]) => ({ id, correct }));
+    const finalResults = words.map(word => {
+      const grade = grades[word.id];
+      const correct = isPassingGrade(grade);
+      // A single character needs no marking
+      const chars = wordCharacters(word.text);
+      const marked = chars.length === 1 ? chars : wrongChars[word.id] ?? [];
+      return { id: word.id, correct, grade, wrongChars: correct ? [] : marked };
+    });
     onFinish(finalResults);
   };
 
-  const correctCount = Object.values(results).filter(Boolean).length;
+  const correctCount = Object.values(grades).filter(isPassingGrade).length;
   const score = Math.round((correctCount / words.length) * 100);
 
   return (
@@ -38,14 +88,14 @@ const CorrectionView: React.FC<CorrectionViewProps> = ({ words, onFinish }) => {
             }`}>
                 得分: {score}%
             </div>
-            <p className="text-gray-500 text-sm mt-2">请根据听写情况，标记写错的词语</p>
+            <p className="text-gray-500 text-sm mt-2">请根据听写情况，标记写错的词语；错一点、犹豫或轻松会影响下次复习的时间</p>
         </div>
 
         {/* Global Controls */}
         <div className="flex gap-3 mb-6 md:mb-8">
             
             <button 
-                onClick={() => setAll(false)}
+                onClick={() => setAll(ReviewGrade.WRONG)}
                 className="flex-1 py-3 bg-red-50 text-red-700 rounded-xl font-bold border border-red-200 hover:bg-red-100 transition-all shadow-sm active:scale-95 flex items-center justify-center gap-2 text-sm md:text-base"
             >
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
@@ -53,7 +103,7 @@ const CorrectionView: React.FC<CorrectionViewProps> = ({ words, onFinish }) => {
             </button>
             
             <button 
-                onClick={() => setAll(true)}
+                onClick={() => setAll(ReviewGrade.CORRECT)}
                 className="flex-1 py-3 bg-green-50 text-green-700 rounded-xl font-bold border border-green-200 hover:bg-green-100 transition-all shadow-sm active:scale-95 flex items-center justify-center gap-2 text-sm md:text-base"
             >
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
@@ -64,56 +114,89 @@ const CorrectionView: React.FC<CorrectionViewProps> = ({ words, onFinish }) => {
         {/* List */}
         <div className="flex-1 overflow-y-auto pr-1 space-y-3 md:space-y-4">
           {words.map((word) => {
-            const isCorrect = results[word.id];
+            const grade = grades[word.id];
+            const isCorrect = isPassingGrade(grade);
             return (
                 <div
                 key={word.id}
-                className={`flex flex-col sm:flex-row sm:items-center justify-between p-3 md:p-4 rounded-xl border transition-all gap-3 sm:gap-6 ${
+                className={`p-3 md:p-4 rounded-xl border transition-all ${
                     isCorrect
                     ? 'border-gray-100 bg-white hover:border-indigo-100 hover:bg-indigo-50/10'
                     : 'border-red-100 bg-red-50'
                 }`}
                 >
-                    <span className={`text-lg md:text-xl font-bold break-all ${isCorrect ? 'text-gray-800' : 'text-red-600 line-through'}`}>
-                        {word.text}
-                    </span>
-                
-                    <div className="flex gap-2 w-full sm:w-auto">
-                         {/* Wrong Button */}
-                        <button
-                            onClick={() => setStatus(word.id, false)}
-                            className={`flex-1 sm:flex-none justify-center px-4 py-2.5 rounded-lg transition-all flex items-center gap-1 font-bold text-sm ${
-                                !isCorrect
-                                ? 'bg-red-500 text-white shadow-md ring-2 ring-red-200' 
-                                : 'bg-white border border-gray-200 text-gray-400 hover:bg-red-50 hover:text-red-400 hover:border-red-200'
-                            }`}
-                        >
-                             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
-                             写错
-                        </button>
-
-                         {/* Correct Button */}
-                        <button
-                            onClick={() => setStatus(word.id, true)}
-                            className={`flex-1 sm:flex-none justify-center px-4 py-2.5 rounded-lg transition-all flex items-center gap-1 font-bold text-sm ${
-                                isCorrect
-                                ? 'bg-green-500 text-white shadow-md ring-2 ring-green-200' 
-                                : 'bg-white border border-gray-200 text-gray-400 hover:bg-green-50 hover:text-green-400 hover:border-green-200'
-                            }`}
-                        >
-                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
-                            正确
-                        </button>
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 sm:gap-6">
+                    <div className="flex items-center gap-2 min-w-0">
+                        <span className={`text-lg md:text-xl font-bold break-all ${isCorrect ? 'text-gray-800' : 'text-red-600'} ${grade === ReviewGrade.WRONG ? 'line-through' : ''}`}>
+                            {word.text}
+                        </span>
+                        {leechIds.has(word.id) && <span className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-purple-100 text-purple-600 whitespace-nowrap">难词</span>}
+                        {replays[word.id] > 0 && <span className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-amber-100 text-amber-700 whitespace-nowrap">重听 {replays[word.id]} 次</span>}
+                    </div>
+
+                    <div className="grid grid-cols-5 gap-1.5 w-full sm:w-auto">
+                        {GRADE_OPTIONS.map(option => (
+                            <button
+                                key={option.grade}
+                                title={option.hint}
+                                onClick={() => setGrade(word.id, option.grade)}
+                                className={`justify-center px-2 sm:px-3 py-2.5 rounded-lg transition-all flex items-center font-bold text-sm whitespace-nowrap ${
+                                    grade === option.grade
+                                    ? option.activeClass
+                                    : 'bg-white border border-gray-200 text-gray-400 hover:bg-gray-50 hover:text-gray-600'
+                                }`}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
                     </div>
                 </div>
+
+                {/* Miswritten characters of a missed word */}
+                {!isCorrect && wordCharacters(word.text).length > 1 && (
+                    <div className="mt-3 flex flex-wrap items-center gap-1.5">
+                        <span className="text-xs text-gray-500 mr-1">点出写错的字:</span>
+                        {wordCharacters(word.text).map(char => (
+                            <button
+                                key={char}
+                                onClick={() => toggleWrongChar(word.id, char)}
+                                className={`w-9 h-9 rounded-lg text-lg font-bold transition-all ${
+                                    wrongChars[word.id]?.includes(char)
+                                    ? 'bg-red-500 text-white shadow-sm'
+                                    : 'bg-white border border-red-100 text-gray-600 hover:bg-red-100'
+                                }`}
+                            >
+                                {char}
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                {/* Copy-writing for a missed leech */}
+                {needsCopy(word.id) && (
+                    <label className="mt-3 flex items-center gap-2 p-2.5 rounded-lg bg-white border border-purple-100 text-sm text-purple-700 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={copiedIds.has(word.id)}
+                            onChange={() => toggleCopied(word.id)}
+                            className="accent-purple-600 w-4 h-4"
+                        />
+                        这个词总是写错，请看着正确写法工整地抄写 {LEECH_COPY_COUNT} 遍，抄完后打勾
+                    </label>
+                )}
+                </div>
             );
           })}
         </div>
 
         <div className="mt-6 md:mt-8 pt-4 border-t border-gray-100">
+          {pendingCopies > 0 && (
+            <p className="text-sm text-purple-600 text-center mb-3">还有 {pendingCopies} 个难词没有抄写</p>
+          )}
           <button
             onClick={handleFinish}
-            className="w-full py-3 md:py-4 bg-gray-900 text-white rounded-xl font-bold shadow-md hover:bg-gray-800 transition-colors flex items-center justify-center gap-2 text-base md:text-lg"
+            disabled={pendingCopies > 0}
+            className="w-full py-3 md:py-4 bg-gray-900 text-white rounded-xl font-bold shadow-md hover:bg-gray-800 transition-colors flex items-center justify-center gap-2 text-base md:text-lg disabled:opacity-50 disabled:cursor-not-allowed"
           >
             保存订正结果
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 5l7 7m0 0l-7 7m7-7H3" /></svg>
@@ -0,0 +1,57 @@
+import React from 'react';
+import { DailyPlanProgress } from '../services/planService';
+
+interface DailyPlanCardProps {
+  progress: DailyPlanProgress;
+  onStart: () => void;
+}
+
+const DailyPlanCard: React.FC<DailyPlanCardProps> = ({ progress, onStart }) => {
+  const { reviewTotal, reviewDone, newTotal, newDone, remaining, backlog, backlogDays } = progress;
+  const total = reviewTotal + newTotal;
+  const done = reviewDone + newDone;
+  const percent = total === 0 ? 0 : Math.round((done / total) * 100);
+
+  return (
+    <div className="bg-white rounded-3xl p-5 md:p-6 shadow-sm border border-gray-100">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-baseline justify-between gap-3">
+            <h3 className="text-lg font-bold text-gray-800">📅 今日计划</h3>
+            {total > 0 && <span className="text-sm font-bold text-indigo-600">{done} / {total}</span>}
+          </div>
+
+          {total === 0 ? (
+            <p className="text-sm text-gray-400 mt-2">今天没有需要复习的词，可以添加新的词库</p>
+          ) : (
+            <>
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden mt-3">
+                <div className="h-full bg-indigo-500 rounded-full transition-all" style={{ width: `${percent}%` }}></div>
+              </div>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500 mt-2">
+                <span>复习 {reviewDone}/{reviewTotal}</span>
+                <span>新词 {newDone}/{newTotal}</span>
+                {backlog > 0 && (
+                  <span className="text-amber-600">另有 {backlog} 个待复习的词，之后约 {backlogDays} 天内安排</span>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        {remaining.length > 0 ? (
+          <button
+            onClick={onStart}
+            className="py-3 px-6 bg-indigo-600 text-white rounded-xl font-bold shadow-md hover:bg-indigo-700 transition-transform active:scale-95 whitespace-nowrap"
+          >
+            {done === 0 ? '开始' : '继续'}（剩 {remaining.length} 个）
+          </button>
+        ) : total > 0 && (
+          <span className="py-3 px-6 bg-green-50 text-green-700 rounded-xl font-bold text-center whitespace-nowrap">今日计划已完成 🎉</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DailyPlanCard;
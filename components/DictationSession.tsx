@@ -1,339 +1,138 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { WordItem, DictationSettings, PlaybackOrder } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { WordItem, DictationSettings } from '../types';
 import { speakText, cancelSpeech, warmupTTS } from '../services/geminiService';
+import {
+  createDictationEngine, orderWords, writingSeconds, systemClock,
+  DictationEngine, DictationState, INITIAL_DICTATION_STATE
+} from '../services/dictationEngine';
+import {
+  bindMediaSession, commandForKey, createSilentAudio, isMediaPlaying, runDictationCommand, updateMediaSession,
+  DictationCommand, SilentAudio, DICTATION_SHORTCUTS
+} from '../services/dictationControls';
 
 interface DictationSessionProps {
   words: WordItem[];
   settings: DictationSettings;
-  onComplete: (playedWords?: WordItem[]) => void;
+  onComplete: (playedWords: WordItem[], replays: Record<string, number>) => void; // replays：单词 id -> 重听次数
   onCancel: () => void;
   onOpenSettings?: () => void; // 打开设置
+  speechRate?: number; // 朗读语速，难词练习时更慢
+  resume?: { index: number; played: string[]; replays: Record<string, number> }; // 继续上次中断的听写，words 已是播放顺序
+  onProgress?: (queue: WordItem[], index: number, played: WordItem[], replays: Record<string, number>) => void; // 换词、读完或重听时调用，用于保存进度
 }
 
-/**
- * 核心逻辑说明：
- * 
- * 状态流程：
- * IDLE -> PLAYING -> WAITING -> (下一个词) -> IDLE
- *           |
- *           + -> PAUSED (可在PLAYING或WAITING时暂停)
- * 
- * 每个单词的流程：
- * 1. PLAYING: 播放单词(可能重复autoRepeat次)
- * 2. WAITING: 等待用户书写(可跳过或暂停)
- * 3. 移动到下一个单词，状态回到IDLE触发自动播放
- * 
- * 核心设计：
- * - 使用currentRepeatRef来追踪当前单词的播放进度（重复次数）
- * - 使用waitingStartTimeRef来准确追踪等待时间（支持暂停恢复）
- * - 使用timersRef保管所有定时器ID，确保清理
- * - 避免复杂的递归调用，使用简单的条件判断
- */
-
-const DictationSession: React.FC<DictationSessionProps> = ({ words, settings, onComplete, onCancel, onOpenSettings }) => {
-  // ==================== 状态定义 ====================
-
-  // 有序单词列表
-  const [playQueue, setPlayQueue] = useState<WordItem[]>([]);
-
-  // 当前播放的单词索引
-  const [currentWordIndex, setCurrentWordIndex] = useState(0);
-
-  // 当前播放状态
-  const [status, setStatus] = useState<'INIT' | 'IDLE' | 'PLAYING' | 'WAITING' | 'PAUSED' | 'DONE' | 'ERROR'>('INIT');
-
-  // 错误信息
-  const [error, setError] = useState<string | null>(null);
-
-  // 等待倒计时显示
-  const [timeLeft, setTimeLeft] = useState(0);
+// 引擎按播放位置记重听次数，对外按单词 id
+const replaysById = (queue: WordItem[], replays: Record<number, number>): Record<string, number> =>
+  Object.fromEntries(Object.entries(replays).map(([index, count]) => [queue[Number(index)].id, count]));
 
-  // ==================== Refs定义 ====================
-
-  // 当前单词已重复的次数（0表示第一次）
-  const currentRepeatRef = useRef(0);
-
-  // 等待开始时间戳（用于暂停恢复时计算剩余时间）
-  const waitingStartTimeRef = useRef(0);
+// 播放流程（朗读、重复、等待书写、暂停、跳过、重听）见 services/dictationEngine.ts，这里只负责显示
+const DictationSession: React.FC<DictationSessionProps> = ({ words, settings, onComplete, onCancel, onOpenSettings, speechRate, resume, onProgress }) => {
+  // 播放顺序排好的单词列表
+  const [playQueue, setPlayQueue] = useState<WordItem[]>([]);
 
-  // 所有定时器ID，用于清理
-  const timersRef = useRef<NodeJS.Timeout[]>([]);
+  // 播放状态，全部由 dictationEngine 驱动
+  const [state, setState] = useState<DictationState>(INITIAL_DICTATION_STATE);
 
-  // 是否暂停中
-  const isPausedRef = useRef(false);
+  const engineRef = useRef<DictationEngine | null>(null);
 
-  // 是否正在播放中（防止重复触发）
-  const isPlayingRef = useRef(false);
+  // 始终调用最新的回调，不因父组件重新渲染而重建播放引擎
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+  const onProgressRef = useRef(onProgress);
+  onProgressRef.current = onProgress;
 
   // 帮助弹窗
   const [showHelp, setShowHelp] = useState(false);
 
-
-  // ==================== 工具函数 ====================
-
-  /**
-   * 根据单词长度计算动态的等待间隔时间
-   * 中文: 按字数计算
-   * 英文: 按字母数的一半计算
-   * 总时间 = (中文字数 + 英文字母数/2) × 每字间隔
-   */
-  const calculateWaitingTime = useCallback((word: WordItem): number => {
-    let chineseCharCount = 0;
-    let englishCharCount = 0;
-
-    // 统计中文字数和英文字母数
-    for (const char of word.text) {
-      const code = char.charCodeAt(0);
-      // 中文Unicode范围: 4E00-9FFF (CJK Unified Ideographs)
-      if (code >= 0x4e00 && code <= 0x9fff) {
-        chineseCharCount++;
-      } else if (/[a-zA-Z]/.test(char)) {
-        englishCharCount++;
-      }
-    }
-
-    // 计算总的"字数当量"
-    const totalCharUnits = chineseCharCount + englishCharCount / 2;
-    const dynamicTime = Math.max(1, totalCharUnits * settings.perCharInterval);
-
-    console.log(`Word: "${word.text}" (中${chineseCharCount}+英${englishCharCount}) -> Wait time: ${dynamicTime.toFixed(1)}s`);
-    return Math.round(dynamicTime);
-  }, [settings.perCharInterval]);
-
-  /**
-   * Register a timer and track it for cleanup
-   */
-  const setTimer = useCallback((fn: () => void, delay: number) => {
-    const timer = setTimeout(fn, delay);
-    timersRef.current.push(timer);
-    return timer;
-  }, []);
-
-  /**
-   * Register an interval and track it for cleanup
-   */
-  const setInterval_ = useCallback((fn: () => void, interval: number) => {
-    const timer = setInterval(fn, interval);
-    timersRef.current.push(timer as any);
-    return timer;
-  }, []);
-
-  /**
-   * 清理所有定时器
-   */
-  const clearAllTimers = useCallback(() => {
-    timersRef.current.forEach(timer => clearTimeout(timer));
-    timersRef.current = [];
-  }, []);
-
   // ==================== 初始化 ====================
 
   useEffect(() => {
-    // 预热 TTS 引擎 (iPad Safari 需要)
-    const initSession = async () => {
-      // 初始化播放队列
-      let queue = [...words];
-      if (settings.order === PlaybackOrder.REVERSE) {
-        queue.reverse();
-      } else if (settings.order === PlaybackOrder.SHUFFLE) {
-        queue = queue.sort(() => Math.random() - 0.5);
-      }
-
-      setPlayQueue(queue);
-      setCurrentWordIndex(0);
-      setStatus('INIT'); // 初始化中
-      currentRepeatRef.current = 0;
-      isPausedRef.current = false;
-      setError(null);
-
-      console.log('DictationSession initializing, warming up TTS...');
-
-      // 预热 TTS
-      await warmupTTS();
-
-      console.log('TTS warmed up, starting playback with', queue.length, 'words');
-      setStatus('IDLE'); // 现在可以开始播放
-    };
-
-    initSession();
-  }, [words, settings.order]);
-
-  // ==================== 核心播放逻辑 ====================
-
-  /**
-   * 播放当前单词（可能重复多次）
-   */
-  const playCurrentWord = useCallback(async () => {
-    // 防止重复播放
-    if (isPlayingRef.current) {
-      console.log('Already playing, ignoring duplicate call');
-      return;
-    }
-
-    // 检查是否已完成所有单词
-    if (currentWordIndex >= playQueue.length) {
-      setStatus('DONE');
-      return;
-    }
-
-    isPlayingRef.current = true;
-
-    try {
-      const word = playQueue[currentWordIndex];
-      setError(null);
-
-      // 1. 播放音频
-      setStatus('PLAYING');
-
-      // 小延迟确保UI更新
-      await new Promise<void>(r => setTimer(() => r(), 300));
-
-      // 如果在等待中被暂停，则不播放
-      if (isPausedRef.current) {
-        isPlayingRef.current = false;
-        return;
-      }
-
-      // 执行语音合成
-      await speakText(word.text, settings.voice);
-
-      // 如果需要重复播放
-      if (currentRepeatRef.current < settings.autoRepeat - 1) {
-        currentRepeatRef.current += 1;
-        isPlayingRef.current = false;
-        // 重复之间的短暂暂停
-        setTimer(() => playCurrentWord(), 800);
-        return;
-      }
-
-      // 2. 进入等待阶段
-      currentRepeatRef.current = 0;
-      setStatus('WAITING');
-
-      // 根据单词长度动态计算等待时间
-      const dynamicWaitTime = calculateWaitingTime(word);
-
-      waitingStartTimeRef.current = Date.now();
-      setTimeLeft(dynamicWaitTime);
-
-      // 启动倒计时
-      const countdownInterval = setInterval_(() => {
-        if (!isPausedRef.current) {
-          const elapsed = Math.floor((Date.now() - waitingStartTimeRef.current) / 1000);
-          const remaining = Math.max(0, dynamicWaitTime - elapsed);
-          setTimeLeft(remaining);
-        }
-      }, 1000);
-
-      // 等待指定时间或被中断
-      const waitPromise = new Promise<void>(resolve => {
-        const checkComplete = () => {
-          if (isPausedRef.current) {
-            // 暂停中，稍后重新检查
-            setTimer(checkComplete, 500);
-            return;
-          }
-
-          const elapsed = Math.floor((Date.now() - waitingStartTimeRef.current) / 1000);
-          if (elapsed >= dynamicWaitTime) {
-            resolve();
-          } else {
-            // 继续等待
-            const remaining = dynamicWaitTime - elapsed;
-            setTimer(checkComplete, remaining * 1000);
-          }
-        };
-
-        checkComplete();
-      });
-
-      await waitPromise;
-      clearInterval(countdownInterval);
-
-      // 3. 移动到下一个单词
-      setCurrentWordIndex(prev => prev + 1);
-      setStatus('IDLE');
-
-    } catch (err: any) {
-      console.error('Playback error:', err);
-      setError(err.message || '播放失败，请检查语音设置');
-      setStatus('ERROR');
-    } finally {
-      isPlayingRef.current = false;
-    }
-  }, [currentWordIndex, playQueue, settings, setTimer, setInterval_, calculateWaitingTime]);
-
-
-  // ==================== 自动播放触发 ====================
-
-  useEffect(() => {
-    // 当状态变为IDLE且有单词时，自动播放下一个
-    if (status === 'IDLE' && playQueue.length > 0 && currentWordIndex < playQueue.length && !isPlayingRef.current) {
-      const timer = setTimeout(async () => {
-        if (!isPlayingRef.current) {
-          await playCurrentWord();
+    const queue = resume ? words : orderWords(words, settings.order);
+    setPlayQueue(queue);
+    setState(INITIAL_DICTATION_STATE);
+    let last = INITIAL_DICTATION_STATE;
+
+    const engine = createDictationEngine({
+      words: queue,
+      autoRepeat: settings.autoRepeat,
+      writingTime: word => writingSeconds(word.text, settings.perCharInterval) * 1000,
+      replayExtension: settings.replayExtension * 1000,
+      resume: resume && {
+        index: resume.index,
+        played: queue.flatMap((word, index) => resume.played.includes(word.id) ? [index] : []),
+        replays: Object.fromEntries(queue.flatMap((word, index) => resume.replays[word.id] ? [[index, resume.replays[word.id]]] : [])),
+      },
+      clock: systemClock,
+      speech: {
+        warmup: warmupTTS, // iPad Safari 需要预热
+        speak: text => speakText(text, settings.voice, speechRate),
+        cancel: cancelSpeech,
+      },
+      onChange: next => {
+        const previous = last;
+        last = next;
+        setState(next);
+        const played = next.played.map(index => queue[index]);
+        if (next.phase !== 'DONE' && (previous.phase === 'INIT' || next.index !== previous.index || next.played !== previous.played || next.replays !== previous.replays)) {
+          onProgressRef.current?.(queue, next.index, played, replaysById(queue, next.replays));
         }
-      }, 100);
-      return () => clearTimeout(timer);
-    }
+        // 播放完毕或提前结束：把读过的词交给订正环节，跳过的词不算
+        if (next.phase === 'DONE') onCompleteRef.current(played, replaysById(queue, next.replays));
+      },
+    });
+    engineRef.current = engine;
+    engine.start();
 
-    // 当所有单词播放完毕时进入DONE状态
-    if (status === 'IDLE' && playQueue.length > 0 && currentWordIndex >= playQueue.length) {
-      setStatus('DONE');
-    }
-  }, [status, playQueue.length, currentWordIndex, playCurrentWord]);
+    return () => engine.destroy();
+  }, [words, settings.order, settings.autoRepeat, settings.perCharInterval, settings.replayExtension, settings.voice, speechRate, resume]);
 
-  // ==================== 完成处理 ====================
+  const { phase: status, index: currentWordIndex, timeLeft, played, error } = state;
+  const isActive = status === 'PLAYING' || status === 'WAITING' || status === 'PAUSED' || status === 'ERROR';
 
-  useEffect(() => {
-    // 当进入DONE状态时，立即跳转到订正环节
-    if (status === 'DONE') {
-      clearAllTimers();
-      onComplete(playQueue);
-    }
-  }, [status, playQueue, onComplete, clearAllTimers]);
-
-  // ==================== 用户操作 ====================
-
-  const handleFinishEarly = () => {
-    clearAllTimers();
-    cancelSpeech();
-    const playedWords = playQueue.slice(0, currentWordIndex + 1);
-    onComplete(playedWords);
-  };
-
-  const handleSkipWait = () => {
-    setTimeLeft(0);
-    // 强制跳出等待
-    setCurrentWordIndex(prev => prev + 1);
-    setStatus('IDLE');
-  };
+  // ==================== 键盘与耳机按键 ====================
 
-  const handleRetry = () => {
-    clearAllTimers();
-    setStatus('IDLE');
-    currentRepeatRef.current = 0;
+  const runCommand = (command: DictationCommand) => {
+    if (engineRef.current) runDictationCommand(engineRef.current, command);
   };
 
-  const handlePause = () => {
-    isPausedRef.current = true;
-    cancelSpeech();
-    setStatus('PAUSED');
-  };
-
-  const handleResume = () => {
-    isPausedRef.current = false;
-    setStatus('WAITING');
-  };
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select')) return;
+      const command = commandForKey(e);
+      if (!command) return;
+      // 空格不要再点一次获得焦点的按钮
+      e.preventDefault();
+      // 帮助弹窗打开时 Esc 只关闭弹窗
+      if (showHelp) {
+        if (command === 'FINISH') setShowHelp(false);
+        return;
+      }
+      runCommand(command);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [showHelp]);
 
-  // ==================== 清理 ====================
+  // 浏览器只把耳机和锁屏按键交给正在播放媒体的页面，朗读不算，所以同时循环播放一段静音
+  const silentAudioRef = useRef<SilentAudio | null>(null);
 
   useEffect(() => {
+    const silentAudio = createSilentAudio();
+    silentAudioRef.current = silentAudio;
+    const unbind = bindMediaSession(runCommand);
     return () => {
-      clearAllTimers();
-      cancelSpeech();
+      unbind();
+      silentAudio.destroy();
+      silentAudioRef.current = null;
     };
-  }, [clearAllTimers]);
+  }, []);
+
+  // 锁屏和耳机上显示进度，不显示正在听写的词
+  useEffect(() => {
+    silentAudioRef.current?.setPlaying(isMediaPlaying(state.phase));
+    updateMediaSession(state, playQueue.length);
+  }, [state, playQueue.length]);
 
   // ==================== 渲染 ====================
 
@@ -408,8 +207,8 @@ const DictationSession: React.FC<DictationSessionProps> = ({ words, settings, on
                 </div>
               )}
 
-              {/* 空闲或完成 */}
-              {(status === 'IDLE' || status === 'DONE') && (
+              {/* 完成 */}
+              {status === 'DONE' && (
                 <svg className="w-10 h-10 md:w-14 md:h-14 text-gray-300" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 12h.01M12 12h.01M19 12h.01M6 12a1 1 0 11-2 0 1 1 0 012 0zm7 0a1 1 0 11-2 0 1 1 0 012 0zm7 0a1 1 0 11-2 0 1 1 0 012 0z" /></svg>
               )}
             </div>
@@ -428,7 +227,7 @@ const DictationSession: React.FC<DictationSessionProps> = ({ words, settings, on
               <div className="flex flex-col items-center">
                 <p className="text-red-500 text-sm md:text-base font-medium mb-2">{error}</p>
                 <button
-                  onClick={handleRetry}
+                  onClick={() => engineRef.current?.retry()}
                   className="px-4 py-1 bg-red-100 text-red-600 rounded-full text-sm font-bold hover:bg-red-200 transition-colors"
                 >
                   重试
@@ -441,22 +240,64 @@ const DictationSession: React.FC<DictationSessionProps> = ({ words, settings, on
             {status === 'DONE' && <p className="text-green-500 font-bold text-xl">听写完成！</p>}
           </div>
 
+          {/* 题号条：点击跳到第几个词 */}
+          {playQueue.length > 1 && (
+            <div className="flex flex-wrap justify-center gap-1.5 max-w-full">
+              {playQueue.map((word, index) => (
+                <button
+                  key={word.id}
+                  onClick={() => engineRef.current?.jump(index)}
+                  disabled={!isActive}
+                  title={`第 ${index + 1} 个`}
+                  className={`w-7 h-7 rounded-full text-xs font-bold transition-colors disabled:cursor-not-allowed ${index === currentWordIndex && isActive
+                    ? 'bg-indigo-600 text-white'
+                    : played.includes(index)
+                      ? 'bg-indigo-100 text-indigo-600 hover:bg-indigo-200'
+                      : 'bg-gray-100 text-gray-400 hover:bg-gray-200'
+                    }`}
+                >
+                  {index + 1}
+                </button>
+              ))}
+            </div>
+          )}
+
         </div>
 
         {/* 控制按钮 */}
         <div className="p-4 md:p-6 bg-gray-50 flex justify-between items-center">
           <button
-            onClick={handleFinishEarly}
+            onClick={() => engineRef.current?.finish()}
             className="text-gray-500 hover:text-indigo-600 font-medium transition-colors px-4 py-2"
           >
             结束听写
           </button>
 
-          <div className="flex gap-2">
+          <div className="flex flex-wrap justify-end gap-2">
+            {/* 上一个按钮 */}
+            {isActive && currentWordIndex > 0 && (
+              <button
+                onClick={() => engineRef.current?.previous()}
+                className="text-gray-600 hover:text-indigo-600 font-medium transition-colors px-4 py-2"
+              >
+                上一个
+              </button>
+            )}
+
+            {/* 再读一遍按钮：倒计时继续，按设置延长 */}
+            {status === 'WAITING' && (
+              <button
+                onClick={() => engineRef.current?.replay()}
+                className="text-amber-600 hover:text-amber-800 font-medium transition-colors px-4 py-2"
+              >
+                再读一遍
+              </button>
+            )}
+
             {/* 暂停按钮 */}
             {(status === 'PLAYING' || status === 'WAITING') && (
               <button
-                onClick={handlePause}
+                onClick={() => engineRef.current?.pause()}
                 className="text-blue-600 hover:text-blue-800 font-medium transition-colors px-4 py-2"
               >
                 暂停
@@ -466,7 +307,7 @@ const DictationSession: React.FC<DictationSessionProps> = ({ words, settings, on
             {/* 继续按钮 */}
             {status === 'PAUSED' && (
               <button
-                onClick={handleResume}
+                onClick={() => engineRef.current?.resume()}
                 className="text-blue-600 hover:text-blue-800 font-medium transition-colors px-4 py-2"
               >
                 继续
@@ -476,7 +317,7 @@ const DictationSession: React.FC<DictationSessionProps> = ({ words, settings, on
             {/* 跳过等待按钮 */}
             {status === 'WAITING' && (
               <button
-                onClick={handleSkipWait}
+                onClick={() => engineRef.current?.skip()}
                 className="text-indigo-600 hover:text-indigo-800 font-medium transition-colors px-4 py-2"
               >
                 跳过等待
@@ -500,6 +341,19 @@ const DictationSession: React.FC<DictationSessionProps> = ({ words, settings, on
               <p>如果没有声音，请到设置页面选择适配本机的 TTS 引擎（本地语音）。</p>
               <p className="text-xs text-gray-500">提示：不同系统/浏览器可用的语音列表不同，请选择一个能正常发声的发音人。</p>
             </div>
+            {/* 快捷键 */}
+            <div className="mt-4 pt-3 border-t border-gray-100">
+              <h4 className="text-sm font-bold text-gray-700 mb-2">快捷键</h4>
+              <ul className="text-sm text-gray-600 space-y-1.5">
+                {DICTATION_SHORTCUTS.map(shortcut => (
+                  <li key={shortcut.command} className="flex items-center gap-2">
+                    <kbd className="min-w-[2.5rem] px-1.5 py-0.5 rounded border border-gray-200 bg-gray-50 text-xs font-mono text-center text-gray-700">{shortcut.label}</kbd>
+                    {shortcut.description}
+                  </li>
+                ))}
+              </ul>
+              <p className="text-xs text-gray-500 mt-2">蓝牙耳机和锁屏界面上的播放/暂停、上一首、下一首按钮也可以控制听写。</p>
+            </div>
             <div className="mt-4 flex justify-end gap-2">
               <button className="px-3 py-1.5 text-sm rounded-lg border border-gray-200 text-gray-600 hover:bg-gray-50" onClick={() => setShowHelp(false)}>知道了</button>
               <button className="px-3 py-1.5 text-sm rounded-lg bg-indigo-600 text-white font-bold hover:bg-indigo-700" onClick={() => { setShowHelp(false); onOpenSettings?.(); }}>去设置页面</button>
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { toDateKey } from '../services/planService';
+
+interface ExamDateDialogProps {
+  groupTitle: string;
+  examDate: string | null; // Upcoming exam already set for the group
+  reviewCount: number;
+  onSave: (examDate: string | null) => void; // null removes the exam
+  onCancel: () => void;
+}
+
+const ExamDateDialog: React.FC<ExamDateDialogProps> = ({ groupTitle, examDate, reviewCount, onSave, onCancel }) => {
+  const today = toDateKey(Date.now());
+  const [date, setDate] = useState(examDate ?? '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (date >= today) onSave(date);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white rounded-2xl shadow-2xl">
+        <div className="p-5 border-b border-gray-100">
+          <h3 className="text-lg font-bold text-gray-800">考试日期</h3>
+          <p className="text-xs text-gray-500 mt-1 truncate" title={groupTitle}>{groupTitle}</p>
+        </div>
+
+        <div className="p-5 space-y-3">
+          <input
+            type="date"
+            value={date}
+            min={today}
+            onChange={(e) => setDate(e.target.value)}
+            autoFocus
+            className="w-full p-2.5 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+          <p className="text-xs text-gray-500">
+            考试前每个词至少复习 {reviewCount} 次，错得多的词会多复习几次；考完后恢复正常的复习节奏。次数可在设置中调整。
+          </p>
+        </div>
+
+        <div className="p-5 border-t border-gray-100 flex items-center gap-2">
+          {examDate && (
+            <button type="button" className="px-4 py-2 text-sm rounded-lg text-red-600 hover:bg-red-50" onClick={() => onSave(null)}>取消考试</button>
+          )}
+          <div className="flex-1"></div>
+          <button type="button" className="px-4 py-2 text-sm rounded-lg border border-gray-200 text-gray-600 hover:bg-gray-50" onClick={onCancel}>取消</button>
+          <button
+            type="submit"
+            disabled={date < today}
+            className="px-4 py-2 text-sm rounded-lg text-white font-bold bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            确定
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ExamDateDialog;
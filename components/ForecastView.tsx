@@ -0,0 +1,125 @@
+import React, { useMemo, useState } from 'react';
+import { WordItem } from '../types';
+import { buildForecast } from '../services/planService';
+
+interface ForecastViewProps {
+  words: WordItem[];
+  onBack: () => void;
+  onPullForward: (words: WordItem[]) => void; // Adds the words to today's plan
+}
+
+const FORECAST_DAYS = 30;
+const WEEKDAYS = ['日', '一', '二', '三', '四', '五', '六'];
+
+const formatDay = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getMonth() + 1}月${date.getDate()}日 周${WEEKDAYS[date.getDay()]}`;
+};
+
+const ForecastView: React.FC<ForecastViewProps> = ({ words, onBack, onPullForward }) => {
+  // null shows all groups
+  const [groupTitle, setGroupTitle] = useState<string | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const groupTitles = useMemo(() => [...new Set(words.map(w => w.groupTitle))], [words]);
+  const forecast = useMemo(
+    () => buildForecast(groupTitle === null ? words : words.filter(w => w.groupTitle === groupTitle), FORECAST_DAYS),
+    [words, groupTitle]
+  );
+
+  const maxCount = Math.max(1, ...forecast.map(day => day.words.length));
+  const total = forecast.reduce((sum, day) => sum + day.words.length, 0);
+  const selected = forecast[selectedIndex];
+  const selectedGroups = useMemo(() => {
+    const groups = new Map<string, WordItem[]>();
+    selected.words.forEach(w => groups.set(w.groupTitle, [...(groups.get(w.groupTitle) || []), w]));
+    return [...groups.entries()];
+  }, [selected]);
+
+  return (
+    <div className="w-full h-full flex flex-col bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden">
+      <div className="p-4 md:p-6 border-b border-gray-100 flex items-center justify-between bg-gray-50">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">复习预报</h2>
+          <p className="text-gray-500 text-sm mt-1">未来 {FORECAST_DAYS} 天共有 {total} 个词需要复习</p>
+        </div>
+        <button onClick={onBack} className="p-2 hover:bg-gray-200 rounded-full transition-colors">
+          <svg className="w-6 h-6 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 md:p-6 space-y-6">
+        <select
+          value={groupTitle ?? ''}
+          onChange={(e) => setGroupTitle(e.target.value || null)}
+          className="w-full sm:w-auto p-2.5 border border-gray-200 rounded-xl text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+        >
+          <option value="">全部词库</option>
+          {groupTitles.map(title => <option key={title} value={title}>{title}</option>)}
+        </select>
+
+        {/* Bar Chart */}
+        <div className="overflow-x-auto">
+          <div className="flex items-end gap-1 h-48 min-w-[40rem]">
+            {forecast.map((day, index) => {
+              const count = day.words.length;
+              const weekday = new Date(day.start).getDay();
+              return (
+                <button
+                  key={day.date}
+                  onClick={() => setSelectedIndex(index)}
+                  title={`${formatDay(day.start)}：${count} 个词`}
+                  className="flex-1 h-full flex flex-col items-center justify-end gap-1 group"
+                >
+                  <span className={`text-[10px] ${count > 0 ? 'text-gray-500' : 'text-transparent'}`}>{count}</span>
+                  <div
+                    className={`w-full rounded-t-md transition-colors ${index === selectedIndex ? 'bg-indigo-600' : 'bg-indigo-200 group-hover:bg-indigo-300'}`}
+                    style={{ height: `${(count / maxCount) * 75}%`, minHeight: count > 0 ? '4px' : '1px' }}
+                  ></div>
+                  <span className={`text-[10px] ${weekday === 0 || weekday === 6 ? 'text-orange-500' : 'text-gray-400'} ${index === selectedIndex ? 'font-bold' : ''}`}>
+                    {index === 0 ? '今' : new Date(day.start).getDate()}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Selected Day */}
+        <div className="border border-gray-100 rounded-xl p-4">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-3">
+            <h3 className="font-bold text-gray-800">
+              {selectedIndex === 0 ? '今天（含已过期）' : formatDay(selected.start)} · {selected.words.length} 个词
+            </h3>
+            {selectedIndex > 0 && selected.words.length > 0 && (
+              <button
+                onClick={() => onPullForward(selected.words)}
+                className="px-4 py-2 rounded-lg text-sm font-bold bg-indigo-50 text-indigo-600 hover:bg-indigo-100 transition-all"
+              >
+                提前到今天复习
+              </button>
+            )}
+          </div>
+          {selected.words.length === 0 ? (
+            <p className="text-sm text-gray-400">这一天没有需要复习的词</p>
+          ) : (
+            <div className="space-y-3">
+              {selectedGroups.map(([title, groupWords]) => (
+                <div key={title}>
+                  <div className="text-xs text-gray-400 mb-1">{title} · {groupWords.length} 个</div>
+                  <div className="flex flex-wrap gap-2">
+                    {groupWords.map(w => (
+                      <span key={w.id} className="px-2.5 py-1 rounded-lg bg-gray-50 text-gray-700 text-sm">{w.text}</span>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ForecastView;
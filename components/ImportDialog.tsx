@@ -0,0 +1,249 @@
+import React, { useState, useMemo } from 'react';
+import { WordItem, ImportMode, LearnerProfile } from '../types';
+import { planImport, findTargetProfile, ImportPlan } from '../services/importService';
+import { ParsedProfileBackup } from '../services/schemaService';
+
+interface ImportDialogProps {
+  fileName: string;
+  profiles: LearnerProfile[];
+  activeProfileId: string;
+  existingWords: WordItem[]; // Words of the active profile
+  sources: ParsedProfileBackup[]; // One entry per profile in the file
+  onConfirm: (source: ParsedProfileBackup, plan: ImportPlan, includeSettings: boolean) => void;
+  onConfirmAll: (mode: ImportMode, includeSettings: boolean) => void;
+  onCancel: () => void;
+}
+
+const ALL_SOURCES = -1;
+
+const MODE_OPTIONS: { mode: ImportMode; label: string; description: string }[] = [
+  { mode: ImportMode.MERGE, label: '合并', description: '相同的词保留最近复习过的记录，其余的词都会加入' },
+  { mode: ImportMode.NEW_GROUPS, label: '只添加新词库', description: '本机已有的词库保持不变，只添加文件中的新词库' },
+  { mode: ImportMode.REPLACE, label: '全部替换', description: '清空本机所有词语，完全使用文件中的数据' },
+];
+
+const ImportDialog: React.FC<ImportDialogProps> = ({
+  fileName,
+  profiles,
+  activeProfileId,
+  existingWords,
+  sources,
+  onConfirm,
+  onConfirmAll,
+  onCancel
+}) => {
+  const [mode, setMode] = useState<ImportMode>(ImportMode.MERGE);
+  // Index into sources, or ALL_SOURCES to import every profile into its match
+  const [selected, setSelected] = useState(0);
+  const [includeSettings, setIncludeSettings] = useState(sources.some(s => s.settings));
+  const [showReport, setShowReport] = useState(false);
+
+  const activeProfile = profiles.find(p => p.id === activeProfileId);
+  const importAll = selected === ALL_SOURCES;
+  const source = sources[importAll ? 0 : selected];
+  const { words: incomingWords, settings: incomingSettings, repairedCount, rejectedCount, report, settingsIssues } = source;
+  const hasSettings = importAll ? sources.some(s => s.settings) : !!incomingSettings;
+
+  // Preview of the chosen mode; the same plan is applied on confirm
+  const plan = useMemo(
+    () => planImport(existingWords, incomingWords, mode),
+    [existingWords, incomingWords, mode]
+  );
+
+  const hasChanges = plan.added > 0 || plan.updated > 0 || plan.removed > 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div className="w-full max-w-lg bg-white rounded-2xl shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-5 border-b border-gray-100 flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-gray-800">导入数据</h3>
+            <p className="text-xs text-gray-400 mt-1 break-all">
+              {fileName} · {sources.length > 1 ? `${sources.length} 个孩子` : `${incomingWords.length} 个词语`}
+            </p>
+          </div>
+          <button className="text-gray-400 hover:text-gray-600 text-lg" onClick={onCancel}>✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-4">
+          {/* Source Profile Selection */}
+          {sources.length > 1 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">导入哪个孩子的数据</label>
+              <select
+                value={selected}
+                onChange={(e) => setSelected(Number(e.target.value))}
+                className="w-full p-2.5 border border-gray-200 rounded-xl text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+              >
+                {sources.map((s, index) => (
+                  <option key={index} value={index}>
+                    {s.profile?.name || `第 ${index + 1} 个孩子`}（{s.words.length} 个词语）→ 导入到 {activeProfile?.name}
+                  </option>
+                ))}
+                <option value={ALL_SOURCES}>全部导入，分别合并到同名的孩子</option>
+              </select>
+            </div>
+          )}
+
+          {/* Mode Selection */}
+          <div className="space-y-2">
+            {MODE_OPTIONS.map(option => (
+              <button
+                key={option.mode}
+                onClick={() => setMode(option.mode)}
+                className={`w-full text-left p-3 rounded-xl border transition-all ${mode === option.mode
+                  ? 'border-indigo-300 bg-indigo-50 ring-1 ring-indigo-200'
+                  : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+              >
+                <div className={`font-bold text-sm ${mode === option.mode ? 'text-indigo-700' : 'text-gray-700'}`}>{option.label}</div>
+                <div className="text-xs text-gray-500 mt-0.5">{option.description}</div>
+              </button>
+            ))}
+          </div>
+
+          {/* Profile Mapping (import all) */}
+          {importAll && (
+            <div className="border border-gray-100 rounded-xl divide-y divide-gray-100">
+              {sources.map((s, index) => {
+                const target = findTargetProfile(s.profile, profiles);
+                return (
+                  <div key={index} className="px-3 py-2 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-gray-700 truncate">{s.profile?.name || `第 ${index + 1} 个孩子`}</span>
+                      <span className="text-xs whitespace-nowrap ml-2">
+                        {target
+                          ? <span className="text-indigo-600">导入到 {target.name}</span>
+                          : <span className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-blue-100 text-blue-600">新建孩子</span>}
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-400 mt-0.5">
+                      {s.words.length} 个词语，修复 {s.repairedCount} 条，跳过 {s.rejectedCount} 条
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {!importAll && (
+            <>
+              {/* Preview Summary */}
+              <div className="bg-gray-50 rounded-xl p-4">
+                <h4 className="text-sm font-bold text-gray-700 mb-2">导入预览</h4>
+                <div className="grid grid-cols-3 gap-2 text-center">
+                  <div>
+                    <div className="text-xl font-extrabold text-green-600">{plan.added}</div>
+                    <div className="text-xs text-gray-500">新增</div>
+                  </div>
+                  <div>
+                    <div className="text-xl font-extrabold text-indigo-600">{plan.updated}</div>
+                    <div className="text-xs text-gray-500">更新</div>
+                  </div>
+                  <div>
+                    <div className={`text-xl font-extrabold ${plan.removed > 0 ? 'text-red-600' : 'text-gray-400'}`}>{plan.removed}</div>
+                    <div className="text-xs text-gray-500">删除</div>
+                  </div>
+                </div>
+                {plan.unchanged > 0 && (
+                  <p className="text-xs text-gray-400 mt-2">{plan.unchanged} 个词本机记录更新，保持不变</p>
+                )}
+              </div>
+
+              {/* Validation Report */}
+              <div className={`rounded-xl p-4 text-sm ${report.length > 0 || settingsIssues.length > 0 ? 'bg-amber-50' : 'bg-green-50'}`}>
+                <div className="flex items-center justify-between">
+                  <span className={report.length > 0 || settingsIssues.length > 0 ? 'text-amber-700' : 'text-green-700'}>
+                    校验结果：可导入 {incomingWords.length} 条，其中修复 {repairedCount} 条，跳过 {rejectedCount} 条
+                  </span>
+                  {(report.length > 0 || settingsIssues.length > 0) && (
+                    <button className="text-xs text-amber-700 font-bold hover:underline whitespace-nowrap ml-2" onClick={() => setShowReport(!showReport)}>
+                      {showReport ? '收起' : '查看详情'}
+                    </button>
+                  )}
+                </div>
+                {showReport && (
+                  <ul className="mt-3 space-y-2 max-h-48 overflow-y-auto text-xs">
+                    {report.map(record => (
+                      <li key={record.index} className="bg-white/70 rounded-lg p-2">
+                        <div className="font-bold text-gray-700">
+                          第 {record.index + 1} 条{record.text && ` "${record.text}"`}
+                          <span className={`ml-2 ${record.action === 'rejected' ? 'text-red-600' : 'text-amber-600'}`}>
+                            {record.action === 'rejected' ? '已跳过' : '已修复'}
+                          </span>
+                        </div>
+                        {record.issues.map((issue, i) => (
+                          <div key={i} className="text-gray-500 break-all">· {issue}</div>
+                        ))}
+                      </li>
+                    ))}
+                    {settingsIssues.length > 0 && (
+                      <li className="bg-white/70 rounded-lg p-2">
+                        <div className="font-bold text-gray-700">听写设置</div>
+                        {settingsIssues.map((issue, i) => (
+                          <div key={i} className="text-gray-500 break-all">· {issue}</div>
+                        ))}
+                      </li>
+                    )}
+                  </ul>
+                )}
+              </div>
+
+              {/* Per Group Changes */}
+              {plan.groups.length > 0 && (
+                <div className="border border-gray-100 rounded-xl divide-y divide-gray-100 max-h-48 overflow-y-auto">
+                  {plan.groups.map(group => (
+                    <div key={group.title} className="flex items-center justify-between px-3 py-2 text-sm">
+                      <span className={`truncate ${group.skipped ? 'text-gray-400 line-through' : 'text-gray-700'}`}>
+                        {group.title}
+                        {group.isNew && !group.skipped && <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] font-bold bg-blue-100 text-blue-600">新词库</span>}
+                      </span>
+                      <span className="text-xs text-gray-500 whitespace-nowrap ml-2">
+                        {group.skipped ? '已存在，跳过' : `+${group.added} / 更新 ${group.updated}`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {plan.removed > 0 && (
+                <p className="text-sm text-red-600 font-medium">注意：本机现有的 {plan.removed} 个词语及其复习记录将被删除！</p>
+              )}
+            </>
+          )}
+
+          {importAll && mode === ImportMode.REPLACE && (
+            <p className="text-sm text-red-600 font-medium">注意：上面每个已有孩子的词语及其复习记录都将被文件中的数据替换！</p>
+          )}
+
+          {hasSettings && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={includeSettings}
+                onChange={(e) => setIncludeSettings(e.target.checked)}
+                className="accent-indigo-600"
+              />
+              同时导入听写设置
+            </label>
+          )}
+        </div>
+
+        <div className="p-5 border-t border-gray-100 flex justify-end gap-2">
+          <button className="px-4 py-2 text-sm rounded-lg border border-gray-200 text-gray-600 hover:bg-gray-50" onClick={onCancel}>取消</button>
+          <button
+            disabled={!importAll && !hasChanges && !(includeSettings && hasSettings)}
+            className={`px-4 py-2 text-sm rounded-lg text-white font-bold disabled:opacity-50 disabled:cursor-not-allowed ${mode === ImportMode.REPLACE ? 'bg-red-600 hover:bg-red-700' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+            onClick={() => importAll
+              ? onConfirmAll(mode, includeSettings && hasSettings)
+              : onConfirm(source, plan, includeSettings && hasSettings)}
+          >
+            确认导入
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
@@ -6,10 +6,11 @@ interface InputViewProps {
   onCancel: () => void;
   initialTitle?: string;
   initialWords?: string[];
+  isShared?: boolean; // Prefilled from a share link: saved as a new group without starting dictation
   settings: DictationSettings;
 }
 
-const InputView: React.FC<InputViewProps> = ({ onStart, onCancel, initialTitle, initialWords, settings }) => {
+const InputView: React.FC<InputViewProps> = ({ onStart, onCancel, initialTitle, initialWords, isShared = false, settings }) => {
   // Default title logic
   const [title, setTitle] = useState(() => {
     if (initialTitle) return initialTitle;
@@ -31,7 +32,7 @@ const InputView: React.FC<InputViewProps> = ({ onStart, onCancel, initialTitle,
   const latestInterimRef = useRef<string>('');
   const manualStopRef = useRef(false);
 
-  const isEditing = !!initialTitle;
+  const isEditing = !!initialTitle && !isShared;
 
   // Cleanup on unmount
   useEffect(() => {
@@ -193,7 +194,7 @@ const InputView: React.FC<InputViewProps> = ({ onStart, onCancel, initialTitle,
     <div className="w-full h-screen flex items-center justify-center p-2 md:p-4">
       <div className="w-full max-w-2xl bg-white rounded-2xl shadow-lg border border-gray-100 flex flex-col h-full max-h-screen overflow-hidden">
         <h2 className="text-xl md:text-2xl font-bold text-gray-800 mb-4 flex-shrink-0 px-4 md:px-6 pt-4 md:pt-6">
-          {isEditing ? '编辑词库' : '录入新词'}
+          {isEditing ? '编辑词库' : isShared ? '收到分享的词库' : '录入新词'}
         </h2>
 
         {/* Title Input */}
@@ -266,7 +267,7 @@ const InputView: React.FC<InputViewProps> = ({ onStart, onCancel, initialTitle,
             disabled={!text.trim()}
             className="flex-1 py-3 px-6 rounded-xl bg-indigo-600 text-white font-semibold shadow-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
           >
-            {isEditing ? '保存修改' : '开始听写'}
+            {isEditing ? '保存修改' : isShared ? '保存词库' : '开始听写'}
           </button>
         </div>
       </div>
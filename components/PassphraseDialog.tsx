@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+
+interface PassphraseDialogProps {
+  title: string;
+  description: string;
+  confirm: boolean; // Ask twice when setting a new passphrase
+  error: string | null; // E.g. a wrong passphrase; the dialog stays open for another try
+  busy: boolean;
+  onSubmit: (passphrase: string) => void;
+  onCancel: () => void;
+}
+
+const MIN_LENGTH = 6;
+
+const PassphraseDialog: React.FC<PassphraseDialogProps> = ({ title, description, confirm, error, busy, onSubmit, onCancel }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [repeat, setRepeat] = useState('');
+
+  const tooShort = confirm && passphrase.length < MIN_LENGTH;
+  const mismatch = confirm && repeat !== '' && repeat !== passphrase;
+  const canSubmit = passphrase !== '' && !tooShort && (!confirm || repeat === passphrase) && !busy;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canSubmit) onSubmit(passphrase);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white rounded-2xl shadow-2xl">
+        <div className="p-5 border-b border-gray-100">
+          <h3 className="text-lg font-bold text-gray-800">{title}</h3>
+          <p className="text-xs text-gray-500 mt-1">{description}</p>
+        </div>
+
+        <div className="p-5 space-y-3">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="密码"
+            autoFocus
+            autoComplete={confirm ? 'new-password' : 'current-password'}
+            className="w-full p-2.5 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+          {confirm && (
+            <input
+              type="password"
+              value={repeat}
+              onChange={(e) => setRepeat(e.target.value)}
+              placeholder="再输入一次"
+              autoComplete="new-password"
+              className="w-full p-2.5 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+          )}
+          {confirm && passphrase !== '' && tooShort && <p className="text-xs text-gray-500">密码至少 {MIN_LENGTH} 位</p>}
+          {mismatch && <p className="text-xs text-red-500">两次输入的密码不一致</p>}
+          {error && <p className="text-xs text-red-500">{error}</p>}
+          {confirm && <p className="text-xs text-amber-600">请牢记这个密码，忘记后备份将无法恢复。</p>}
+        </div>
+
+        <div className="p-5 border-t border-gray-100 flex justify-end gap-2">
+          <button type="button" className="px-4 py-2 text-sm rounded-lg border border-gray-200 text-gray-600 hover:bg-gray-50" onClick={onCancel}>取消</button>
+          <button
+            type="submit"
+            disabled={!canSubmit}
+            className="px-4 py-2 text-sm rounded-lg text-white font-bold bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {busy ? '请稍候…' : '确定'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PassphraseDialog;
@@ -0,0 +1,125 @@
+import React, { useState, useRef } from 'react';
+import { LearnerProfile } from '../types';
+
+const DEFAULT_AVATAR = '/photo/duoduo.png';
+
+interface ProfileSwitcherProps {
+  profiles: LearnerProfile[];
+  activeProfileId: string;
+  onSwitch: (profileId: string) => void;
+  onAdd: (name: string) => void;
+  onRename: (profileId: string, name: string) => void;
+  onDelete: (profileId: string) => void;
+  onChangeAvatar: (profileId: string, dataUrl: string) => void;
+}
+
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({
+  profiles,
+  activeProfileId,
+  onSwitch,
+  onAdd,
+  onRename,
+  onDelete,
+  onChangeAvatar
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+
+  const activeProfile = profiles.find(p => p.id === activeProfileId);
+
+  const handleAvatarChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file && file.type.startsWith('image/')) {
+      const reader = new FileReader();
+      reader.onload = (event) => {
+        onChangeAvatar(activeProfileId, event.target?.result as string);
+      };
+      reader.readAsDataURL(file);
+    }
+    e.target.value = '';
+  };
+
+  const handleAdd = () => {
+    const name = window.prompt('请输入孩子的名字');
+    if (name && name.trim()) {
+      onAdd(name.trim());
+      setIsOpen(false);
+    }
+  };
+
+  const handleRename = () => {
+    if (!activeProfile) return;
+    const name = window.prompt('修改名字', activeProfile.name);
+    if (name && name.trim()) {
+      onRename(activeProfileId, name.trim());
+    }
+  };
+
+  return (
+    <div className="relative">
+      {/* Avatar */}
+      <button
+        className="bg-white/20 backdrop-blur-sm p-1 rounded-2xl cursor-pointer hover:bg-white/30 transition-all flex items-center gap-2 pr-3"
+        onClick={() => setIsOpen(!isOpen)}
+        title="切换孩子"
+      >
+        <div className="w-12 h-12 rounded-xl overflow-hidden bg-white/10 flex items-center justify-center">
+          <img src={activeProfile?.avatar || DEFAULT_AVATAR} alt="Avatar" className="w-full h-full object-cover" />
+        </div>
+        <span className="text-white font-bold text-sm max-w-[6rem] truncate">{activeProfile?.name}</span>
+        <svg className="w-4 h-4 text-white/80" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
+      </button>
+      <input
+        ref={avatarInputRef}
+        type="file"
+        accept="image/*"
+        onChange={handleAvatarChange}
+        className="hidden"
+      />
+
+      {/* Rendered fixed: the dashboard header clips overflowing content */}
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/40 p-4 pt-20" onClick={() => setIsOpen(false)}>
+          <div className="w-full max-w-xs bg-white rounded-2xl shadow-2xl overflow-hidden" onClick={(e) => e.stopPropagation()}>
+            <div className="px-4 pt-4 pb-2 text-sm font-bold text-gray-800">切换孩子</div>
+            <div className="max-h-64 overflow-y-auto">
+              {profiles.map(profile => (
+                <button
+                  key={profile.id}
+                  onClick={() => {
+                    onSwitch(profile.id);
+                    setIsOpen(false);
+                  }}
+                  className={`w-full flex items-center gap-3 px-4 py-3 text-left transition-colors ${profile.id === activeProfileId ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+                >
+                  <img src={profile.avatar || DEFAULT_AVATAR} alt="" className="w-8 h-8 rounded-lg object-cover" />
+                  <span className={`flex-1 truncate text-sm font-medium ${profile.id === activeProfileId ? 'text-indigo-700' : 'text-gray-700'}`}>{profile.name}</span>
+                  {profile.id === activeProfileId && <span className="text-indigo-600 font-bold">✓</span>}
+                </button>
+              ))}
+            </div>
+
+            <div className="border-t border-gray-100 p-2 grid grid-cols-2 gap-1 text-sm">
+              <button onClick={() => avatarInputRef.current?.click()} className="px-3 py-2 rounded-lg text-gray-600 hover:bg-gray-50 text-left">更换头像</button>
+              <button onClick={handleRename} className="px-3 py-2 rounded-lg text-gray-600 hover:bg-gray-50 text-left">修改名字</button>
+              <button onClick={handleAdd} className="px-3 py-2 rounded-lg text-indigo-600 font-bold hover:bg-indigo-50 text-left">+ 添加孩子</button>
+              {profiles.length > 1 && (
+                <button
+                  onClick={() => {
+                    onDelete(activeProfileId);
+                    setIsOpen(false);
+                  }}
+                  className="px-3 py-2 rounded-lg text-red-500 hover:bg-red-50 text-left"
+                >
+                  删除当前孩子
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { ActiveSession } from '../types';
+
+interface ResumeSessionCardProps {
+  session: ActiveSession;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+const ResumeSessionCard: React.FC<ResumeSessionCardProps> = ({ session, onResume, onDiscard }) => {
+  const total = session.wordIds.length;
+  const savedAt = new Date(session.savedAt).toLocaleString('zh-CN', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="bg-amber-50 rounded-3xl p-5 md:p-6 border border-amber-200">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex-1 min-w-0">
+          <h3 className="text-lg font-bold text-gray-800">⏸️ 上次的听写还没完成</h3>
+          <p className="text-sm text-gray-600 mt-1 truncate">
+            {session.groupTitle && <span className="font-semibold">{session.groupTitle} · </span>}
+            {session.step === 'CORRECTION'
+              ? `${total} 个词已听写完，还没有订正`
+              : `听到第 ${Math.min(session.index + 1, total)} / ${total} 个词`}
+          </p>
+          <p className="text-xs text-gray-400 mt-1">{savedAt}</p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onDiscard}
+            className="py-3 px-4 text-gray-500 rounded-xl font-medium hover:bg-amber-100 transition-colors whitespace-nowrap"
+          >
+            放弃
+          </button>
+          <button
+            onClick={onResume}
+            className="flex-1 sm:flex-none py-3 px-6 bg-amber-500 text-white rounded-xl font-bold shadow-md hover:bg-amber-600 transition-transform active:scale-95 whitespace-nowrap"
+          >
+            继续上次的听写
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResumeSessionCard;
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { SessionRecord, SessionSource, PlaybackOrder, WordItem } from '../types';
+
+interface SessionHistoryViewProps {
+  sessions: SessionRecord[]; // Newest first
+  words: WordItem[];
+  onBack: () => void;
+  onRerun: (session: SessionRecord) => void;
+}
+
+const SOURCE_LABELS: Record<SessionSource, string> = {
+  [SessionSource.NEW_WORDS]: '新词听写',
+  [SessionSource.GROUP]: '单元听写',
+  [SessionSource.GLOBAL_REVIEW]: '复习错词',
+  [SessionSource.SMART_REVIEW]: '巩固复习',
+  [SessionSource.RERUN]: '重新听写',
+  [SessionSource.DAILY_PLAN]: '今日计划',
+  [SessionSource.LEECH]: '攻克难词',
+  [SessionSource.WEAK_CHARS]: '薄弱汉字',
+};
+
+const ORDER_LABELS: Record<PlaybackOrder, string> = {
+  [PlaybackOrder.SEQUENTIAL]: '顺序',
+  [PlaybackOrder.REVERSE]: '倒序',
+  [PlaybackOrder.SHUFFLE]: '随机',
+};
+
+const formatDateTime = (timestamp: number) => new Date(timestamp).toLocaleString('zh-CN', {
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.max(1, Math.round(ms / 60000));
+  return minutes < 60 ? `${minutes} 分钟` : `${Math.floor(minutes / 60)} 小时 ${minutes % 60} 分钟`;
+};
+
+const scoreColor = (score: number) => {
+  if (score === 100) return 'bg-green-100 text-green-700';
+  if (score >= 60) return 'bg-indigo-50 text-indigo-700';
+  return 'bg-red-50 text-red-600';
+};
+
+const SessionHistoryView: React.FC<SessionHistoryViewProps> = ({ sessions, words, onBack, onRerun }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = sessions.find(s => s.id === selectedId);
+
+  const sessionTitle = (session: SessionRecord) =>
+    session.groupTitle ? `${SOURCE_LABELS[session.source]} · ${session.groupTitle}` : SOURCE_LABELS[session.source];
+
+  // --- Session Detail ---
+  if (selected) {
+    const existingIds = new Set(words.map(w => w.id));
+    const missingCount = selected.results.filter(r => !existingIds.has(r.wordId)).length;
+    const wrongCount = selected.results.filter(r => !r.correct).length;
+    const canRerun = missingCount < selected.results.length;
+
+    return (
+      <div className="w-full h-full flex flex-col bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden">
+        <div className="p-4 md:p-6 border-b border-gray-100 flex items-center justify-between bg-gray-50">
+          <div className="flex items-center gap-3 min-w-0">
+            <button onClick={() => setSelectedId(null)} className="p-2 hover:bg-gray-200 rounded-full transition-colors" title="返回列表">
+              <svg className="w-6 h-6 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
+            </button>
+            <div className="min-w-0">
+              <h2 className="text-xl md:text-2xl font-bold text-gray-800 truncate">{sessionTitle(selected)}</h2>
+              <p className="text-gray-500 text-sm mt-1">
+                {formatDateTime(selected.startedAt)} · 用时 {formatDuration(selected.endedAt - selected.startedAt)} · {ORDER_LABELS[selected.order]}播放
+              </p>
+            </div>
+          </div>
+          <span className={`px-3 py-1 rounded-full font-bold text-sm whitespace-nowrap ${scoreColor(selected.score)}`}>
+            得分: {selected.score}%
+          </span>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-2 md:p-4 space-y-2">
+          <p className="text-sm text-gray-500 px-1">
+            共 {selected.results.length} 个词，写错 {wrongCount} 个
+          </p>
+          {selected.results.map((result, index) => (
+            <div
+              key={`${result.wordId}-${index}`}
+              className={`flex items-center justify-between p-3 rounded-xl border ${result.correct ? 'border-gray-100' : 'border-red-100 bg-red-50'}`}
+            >
+              <div className="flex items-center gap-3">
+                <span className="w-6 text-right text-xs text-gray-400">{index + 1}</span>
+                <span className={`text-lg font-bold ${result.correct ? 'text-gray-800' : 'text-red-600'}`}>{result.text}</span>
+                {!existingIds.has(result.wordId) && (
+                  <span className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-gray-100 text-gray-500">已删除</span>
+                )}
+              </div>
+              <span className={`text-sm font-bold ${result.correct ? 'text-green-600' : 'text-red-600'}`}>
+                {result.correct ? '✓ 正确' : '✗ 写错'}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 md:p-6 border-t border-gray-100">
+          {missingCount > 0 && canRerun && (
+            <p className="text-xs text-gray-400 mb-2">{missingCount} 个词已被删除，将不会出现在重新听写中</p>
+          )}
+          <button
+            onClick={() => onRerun(selected)}
+            disabled={!canRerun}
+            className="w-full py-3 bg-indigo-600 text-white rounded-xl font-bold shadow-md hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {canRerun ? '用相同的词再听写一次' : '这些词都已被删除'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // --- Session List ---
+  return (
+    <div className="w-full h-full flex flex-col bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden">
+      <div className="p-4 md:p-6 border-b border-gray-100 flex items-center justify-between bg-gray-50">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">听写记录</h2>
+          <p className="text-gray-500 text-sm mt-1">共 {sessions.length} 次听写</p>
+        </div>
+        <button onClick={onBack} className="p-2 hover:bg-gray-200 rounded-full transition-colors">
+          <svg className="w-6 h-6 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 md:p-4 space-y-3">
+        {sessions.length === 0 ? (
+          <div className="text-center py-12 text-gray-400">还没有听写记录，完成一次听写和订正后会显示在这里</div>
+        ) : (
+          sessions.map(session => (
+            <button
+              key={session.id}
+              onClick={() => setSelectedId(session.id)}
+              className="w-full text-left flex items-center justify-between p-3 md:p-4 rounded-xl border border-gray-100 hover:border-indigo-100 hover:bg-indigo-50/30 transition-all gap-4"
+            >
+              <div className="min-w-0">
+                <div className="font-bold text-gray-800 truncate">{sessionTitle(session)}</div>
+                <div className="text-xs text-gray-400 mt-1">
+                  {formatDateTime(session.startedAt)} · {session.results.length} 个词 · 写错 {session.results.filter(r => !r.correct).length} 个
+                </div>
+              </div>
+              <span className={`px-3 py-1 rounded-full font-bold text-sm whitespace-nowrap ${scoreColor(session.score)}`}>
+                {session.score}%
+              </span>
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionHistoryView;
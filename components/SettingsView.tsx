@@ -1,20 +1,39 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { DictationSettings, PlaybackOrder } from '../types';
+import { DictationSettings, PlaybackOrder, SchedulerAlgorithm, SyncConfig, SyncStatus } from '../types';
+import { SCHEDULERS } from '../services/schedulerService';
+import { TableFormat, TABLE_FILE_INFO } from '../services/csvService';
 import { getSystemVoices, speakText } from '../services/geminiService';
 import { requestNotificationPermission, getNotificationPermissionState } from '../services/notificationService';
+import SyncSettings from './SyncSettings';
 
 interface SettingsViewProps {
   settings: DictationSettings;
   onUpdateSettings: (s: DictationSettings) => void;
   onBack: () => void;
-  onExport: () => void;
+  profileName: string;
+  profileCount: number;
+  onExport: (allProfiles: boolean, encrypt: boolean) => void;
   onImport: (file: File) => void;
+  groupTitles: string[];
+  onExportTable: (format: TableFormat, groupTitle: string | null) => void;
+  trashCount: number;
+  onOpenTrash: () => void;
+  snapshotCount: number;
+  onOpenSnapshots: () => void;
+  syncConfig: SyncConfig | null;
+  syncStatus: SyncStatus;
+  onSaveSyncConfig: (config: SyncConfig | null) => void;
+  onSyncNow: () => void;
 }
 
-const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdateSettings, onBack, onExport, onImport }) => {
+const SettingsView: React.FC<SettingsViewProps> = ({ settings, profileName, profileCount, onUpdateSettings, onBack, onExport, onImport, groupTitles, onExportTable, trashCount, onOpenTrash, snapshotCount, onOpenSnapshots, syncConfig, syncStatus, onSaveSyncConfig, onSyncNow }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [availableVoices, setAvailableVoices] = useState<SpeechSynthesisVoice[]>([]);
   const [notifPermission, setNotifPermission] = useState<NotificationPermission>('default');
+  // Word table export: '' means all groups
+  const [tableGroup, setTableGroup] = useState('');
+  const [tableFormat, setTableFormat] = useState<TableFormat>('CSV');
+  const [encryptExport, setEncryptExport] = useState(false);
 
   // Load voices and permissions
   useEffect(() => {
@@ -222,6 +241,32 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdateSettings,
             </div>
           </div>
 
+          {/* Replay */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              再读一遍: <span className="text-indigo-600 font-bold">{settings.replayExtension > 0 ? `书写时间延长 ${settings.replayExtension} 秒` : '不延长书写时间'}</span>
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="10"
+              step="1"
+              value={settings.replayExtension}
+              onChange={(e) => onUpdateSettings({ ...settings, replayExtension: parseInt(e.target.value) })}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-700 mt-3">
+              <input
+                type="checkbox"
+                checked={settings.replaysLowerGrade}
+                onChange={(e) => onUpdateSettings({ ...settings, replaysLowerGrade: e.target.checked })}
+                className="accent-indigo-600"
+              />
+              重听过的词订正时默认记为“犹豫”，下次复习来得更早
+            </label>
+            <p className="text-xs text-gray-400 mt-1">听写时点“再读一遍”、“上一个”或题号回到读过的词，都算重听一次。</p>
+          </div>
+
           {/* Smart Review Batch Size */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -238,12 +283,158 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdateSettings,
             />
           </div>
 
+          {/* Daily Plan */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              每天最多复习: <span className="text-indigo-600 font-bold">{settings.dailyReviewLimit}个</span>
+            </label>
+            <input
+              type="range"
+              min="5"
+              max="200"
+              step="5"
+              value={settings.dailyReviewLimit}
+              onChange={(e) => onUpdateSettings({ ...settings, dailyReviewLimit: parseInt(e.target.value) })}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+            />
+            <label className="block text-sm font-medium text-gray-700 mt-4 mb-2">
+              每天最多学习新词: <span className="text-indigo-600 font-bold">{settings.dailyNewLimit}个</span>
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="50"
+              step="1"
+              value={settings.dailyNewLimit}
+              onChange={(e) => onUpdateSettings({ ...settings, dailyNewLimit: parseInt(e.target.value) })}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+            />
+            <p className="text-xs text-gray-400 mt-1">“今日计划”优先安排拖得最久、错得最多的词，超出的留到之后几天。</p>
+          </div>
+
+          {/* Leeches */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              难词标准: <span className="text-indigo-600 font-bold">写错至少 {settings.leechThreshold} 次，且错误率不低于 {settings.leechWrongRate}%</span>
+            </label>
+            <input
+              type="range"
+              min="2"
+              max="10"
+              step="1"
+              value={settings.leechThreshold}
+              onChange={(e) => onUpdateSettings({ ...settings, leechThreshold: parseInt(e.target.value) })}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+            />
+            <input
+              type="range"
+              min="10"
+              max="100"
+              step="10"
+              value={settings.leechWrongRate}
+              onChange={(e) => onUpdateSettings({ ...settings, leechWrongRate: parseInt(e.target.value) })}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600 mt-4"
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-700 mt-3">
+              <input
+                type="checkbox"
+                checked={settings.suspendLeeches}
+                onChange={(e) => onUpdateSettings({ ...settings, suspendLeeches: e.target.checked })}
+                className="accent-indigo-600"
+              />
+              新出现的难词暂停日常复习，只在“攻克难词”中练习
+            </label>
+            <p className="text-xs text-gray-400 mt-1">“攻克难词”会放慢朗读、每个词读三遍，写错后需要抄写。</p>
+          </div>
+
+          {/* Exam Reviews */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              考前复习: <span className="text-indigo-600 font-bold">每个词至少 {settings.examReviewCount} 次</span>
+            </label>
+            <input
+              type="range"
+              min="1"
+              max="10"
+              step="1"
+              value={settings.examReviewCount}
+              onChange={(e) => onUpdateSettings({ ...settings, examReviewCount: parseInt(e.target.value) })}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+            />
+            <p className="text-xs text-gray-400 mt-1">给词库设置考试日期后，考试前会缩短复习间隔；写错过的词每错一次多复习一次，最多翻倍。</p>
+          </div>
+
+          {/* Review Algorithm */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">复习算法</label>
+            <div className="flex bg-gray-100 p-1 rounded-lg">
+              {Object.values(SchedulerAlgorithm).map((algorithm) => (
+                <button
+                  key={algorithm}
+                  onClick={() => onUpdateSettings({ ...settings, scheduler: algorithm })}
+                  className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${settings.scheduler === algorithm
+                    ? 'bg-white text-indigo-700 shadow-sm'
+                    : 'text-gray-500 hover:text-gray-700'
+                    }`}
+                >
+                  {SCHEDULERS[algorithm].label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400 mt-1">
+              {SCHEDULERS[settings.scheduler].description}切换后，已有词语的复习间隔会沿用到新算法。
+            </p>
+          </div>
+
+          {/* Recycle Bin */}
+          <div className="pt-4 border-t border-gray-100">
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-gray-700">
+                回收站保留天数: <span className="text-indigo-600 font-bold">{settings.trashRetentionDays}天</span>
+              </label>
+              <button onClick={onOpenTrash} className="text-sm text-indigo-600 font-bold hover:underline">
+                打开回收站{trashCount > 0 && ` (${trashCount})`}
+              </button>
+            </div>
+            <input
+              type="range"
+              min="1"
+              max="90"
+              step="1"
+              value={settings.trashRetentionDays}
+              onChange={(e) => onUpdateSettings({ ...settings, trashRetentionDays: parseInt(e.target.value) })}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+            />
+          </div>
+
+          {/* Snapshots */}
+          <div className="pt-4 border-t border-gray-100">
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-gray-700">
+                保留快照数量: <span className="text-indigo-600 font-bold">{settings.snapshotCount}个</span>
+              </label>
+              <button onClick={onOpenSnapshots} className="text-sm text-indigo-600 font-bold hover:underline">
+                恢复快照{snapshotCount > 0 && ` (${snapshotCount})`}
+              </button>
+            </div>
+            <input
+              type="range"
+              min="3"
+              max="30"
+              step="1"
+              value={settings.snapshotCount}
+              onChange={(e) => onUpdateSettings({ ...settings, snapshotCount: parseInt(e.target.value) })}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+            />
+            <p className="text-xs text-gray-400 mt-1">每天以及导入、编辑或删除词库前，自动保存词库和设置</p>
+          </div>
+
           {/* Data Backup/Restore */}
           <div className="pt-4 border-t border-gray-100">
             <h3 className="text-sm font-bold text-gray-900 mb-3">数据备份与恢复</h3>
             <div className="grid grid-cols-2 gap-3">
               <button
-                onClick={onExport}
+                onClick={() => onExport(false, encryptExport)}
                 className="flex items-center justify-center gap-2 py-3 px-4 rounded-xl border border-gray-200 bg-gray-50 text-gray-700 font-medium hover:bg-white hover:border-gray-300 hover:shadow-sm transition-all"
               >
                 <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
@@ -261,10 +452,72 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdateSettings,
                 type="file"
                 ref={fileInputRef}
                 className="hidden"
-                accept=".json"
+                accept=".json,.csv,.tsv,.txt"
                 onChange={handleFileChange}
               />
             </div>
+            <label className="mt-3 flex items-center gap-2 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={encryptExport}
+                onChange={(e) => setEncryptExport(e.target.checked)}
+                className="accent-indigo-600"
+              />
+              用密码加密导出的备份（适合存到网盘）
+            </label>
+            {profileCount > 1 && (
+              <div className="mt-3 flex items-center justify-between text-xs text-gray-500">
+                <span>“导出数据”只包含 {profileName} 的词库</span>
+                <button onClick={() => onExport(true, encryptExport)} className="text-indigo-600 font-bold hover:underline">
+                  导出全部 {profileCount} 个孩子
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Word Table Export */}
+          <div className="pt-4 border-t border-gray-100">
+            <h3 className="text-sm font-bold text-gray-900 mb-1">词表导入导出</h3>
+            <p className="text-xs text-gray-500 mb-3">导出为表格或 Anki 文本；表格文件（.csv / .tsv / .txt）可直接用上面的“导入数据”导入，支持 GBK 编码</p>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <select
+                value={tableGroup}
+                onChange={(e) => setTableGroup(e.target.value)}
+                className="flex-1 p-2.5 border border-gray-200 rounded-xl text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+              >
+                <option value="">全部词库</option>
+                {groupTitles.map(title => (
+                  <option key={title} value={title}>{title}</option>
+                ))}
+              </select>
+              <select
+                value={tableFormat}
+                onChange={(e) => setTableFormat(e.target.value as TableFormat)}
+                className="p-2.5 border border-gray-200 rounded-xl text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+              >
+                {(Object.keys(TABLE_FILE_INFO) as TableFormat[]).map(format => (
+                  <option key={format} value={format}>{TABLE_FILE_INFO[format].label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => onExportTable(tableFormat, tableGroup || null)}
+                className="py-2.5 px-4 rounded-xl border border-gray-200 bg-gray-50 text-gray-700 font-medium hover:bg-white hover:border-gray-300 hover:shadow-sm transition-all"
+              >
+                导出词表
+              </button>
+            </div>
+          </div>
+
+          {/* Sync */}
+          <div className="pt-4 border-t border-gray-100">
+            <h3 className="text-sm font-bold text-gray-900 mb-1">多设备同步</h3>
+            <p className="text-xs text-gray-500 mb-3">把所有孩子的词库和听写记录同步到自己的 WebDAV 或服务器，在家里和学校的设备上都能继续复习</p>
+            <SyncSettings
+              config={syncConfig}
+              status={syncStatus}
+              onSaveConfig={onSaveSyncConfig}
+              onSyncNow={onSyncNow}
+            />
           </div>
 
         </div>
@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { createShareLink, MAX_SHARED_WORDS } from '../services/shareService';
+
+interface ShareDialogProps {
+  title: string;
+  words: string[];
+  onClose: () => void;
+}
+
+const ShareDialog: React.FC<ShareDialogProps> = ({ title, words, onClose }) => {
+  const [link, setLink] = useState<string | null>(null);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [qrError, setQrError] = useState(false);
+  const [copied, setCopied] = useState(false);
+  // The parent passes a new array on every render
+  const wordsKey = words.join('\n');
+
+  useEffect(() => {
+    let cancelled = false;
+    const build = async () => {
+      const shareLink = await createShareLink({ title, words }, window.location.href);
+      if (cancelled) return;
+      setLink(shareLink);
+      try {
+        setQrCode(await QRCode.toDataURL(shareLink, { errorCorrectionLevel: 'L', margin: 1, width: 240 }));
+      } catch (err) {
+        // Too long for a QR code; the link still works
+        console.warn('QR code not generated:', err);
+        setQrError(true);
+      }
+    };
+    build();
+    return () => {
+      cancelled = true;
+    };
+  }, [title, wordsKey]);
+
+  const handleCopy = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+    } catch {
+      window.prompt('请复制下面的链接', link);
+    }
+  };
+
+  const handleNativeShare = () => {
+    if (!link) return;
+    navigator.share({ title: `词库：${title}`, url: link }).catch(() => undefined);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div className="w-full max-w-sm bg-white rounded-2xl shadow-2xl">
+        <div className="p-5 border-b border-gray-100 flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-gray-800">分享词库</h3>
+            <p className="text-xs text-gray-400 mt-1">{title} · {Math.min(words.length, MAX_SHARED_WORDS)} 个词语</p>
+          </div>
+          <button className="text-gray-400 hover:text-gray-600 text-lg" onClick={onClose}>✕</button>
+        </div>
+
+        <div className="p-5 flex flex-col items-center gap-3">
+          {qrCode ? (
+            <img src={qrCode} alt="分享二维码" className="w-60 h-60" />
+          ) : (
+            <div className="w-60 h-60 flex items-center justify-center text-center text-sm text-gray-400 bg-gray-50 rounded-xl p-4">
+              {qrError ? '词语太多，无法生成二维码，请复制链接分享' : '正在生成…'}
+            </div>
+          )}
+          <p className="text-xs text-gray-500 text-center">
+            对方扫码或打开链接后即可保存这个词库。词语只保存在链接里，不会上传到任何服务器。
+          </p>
+          {words.length > MAX_SHARED_WORDS && (
+            <p className="text-xs text-amber-600 text-center">链接只包含前 {MAX_SHARED_WORDS} 个词语</p>
+          )}
+        </div>
+
+        <div className="p-5 border-t border-gray-100 flex justify-end gap-2">
+          {typeof navigator.share === 'function' && (
+            <button
+              disabled={!link}
+              className="px-4 py-2 text-sm rounded-lg border border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+              onClick={handleNativeShare}
+            >
+              发送给…
+            </button>
+          )}
+          <button
+            disabled={!link}
+            className="px-4 py-2 text-sm rounded-lg text-white font-bold bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            onClick={handleCopy}
+          >
+            {copied ? '已复制' : '复制链接'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareDialog;
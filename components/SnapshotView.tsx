@@ -0,0 +1,87 @@
+import React from 'react';
+import { Snapshot, SnapshotReason } from '../types';
+
+interface SnapshotViewProps {
+  snapshots: Snapshot[]; // Newest first
+  keepCount: number;
+  onBack: () => void;
+  onCreate: () => void;
+  onRestore: (snapshot: Snapshot) => void;
+}
+
+const REASON_LABELS: Record<SnapshotReason, string> = {
+  [SnapshotReason.DAILY]: '每日自动',
+  [SnapshotReason.MANUAL]: '手动保存',
+  [SnapshotReason.IMPORT]: '导入前',
+  [SnapshotReason.GROUP_EDIT]: '编辑词库前',
+  [SnapshotReason.GROUP_DELETE]: '删除词库前',
+  [SnapshotReason.RESTORE]: '恢复快照前',
+};
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString('zh-CN', {
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+const SnapshotView: React.FC<SnapshotViewProps> = ({ snapshots, keepCount, onBack, onCreate, onRestore }) => {
+  const handleRestore = (snapshot: Snapshot) => {
+    if (window.confirm(`确定要恢复到 ${formatDate(snapshot.createdAt)} 的状态吗？当前的词库和设置会先保存为一个快照。`)) {
+      onRestore(snapshot);
+    }
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden">
+      <div className="p-4 md:p-6 border-b border-gray-100 flex items-center justify-between bg-gray-50">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">数据快照</h2>
+          <p className="text-gray-500 text-sm mt-1">每天及导入、编辑或删除词库前自动保存，保留最近 {keepCount} 个</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={onCreate} className="px-3 py-1.5 text-sm rounded-lg border border-indigo-200 text-indigo-600 hover:bg-indigo-50">
+            立即保存
+          </button>
+          <button onClick={onBack} className="p-2 hover:bg-gray-200 rounded-full transition-colors">
+            <svg className="w-6 h-6 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 md:p-4 space-y-3">
+        {snapshots.length === 0 ? (
+          <div className="text-center py-12 text-gray-400">还没有快照</div>
+        ) : (
+          snapshots.map(snapshot => {
+            const groupCount = new Set(snapshot.words.map(w => w.groupTitle || '默认词库')).size;
+            return (
+              <div key={snapshot.id} className="flex flex-col sm:flex-row sm:items-center justify-between p-3 md:p-4 rounded-xl border border-gray-100 gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-lg font-bold text-gray-800">{formatDate(snapshot.createdAt)}</span>
+                    <span className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-gray-100 text-gray-500">
+                      {REASON_LABELS[snapshot.reason]}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-400 mt-1">
+                    {groupCount} 个词库 · {snapshot.words.length} 个词语
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleRestore(snapshot)}
+                  className="sm:flex-none px-4 py-2 rounded-lg text-sm font-bold bg-indigo-50 text-indigo-600 hover:bg-indigo-100 transition-all"
+                >
+                  恢复
+                </button>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotView;
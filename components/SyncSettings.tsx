@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { SyncBackend, SyncConfig, SyncStatus } from '../types';
+
+interface SyncSettingsProps {
+  config: SyncConfig | null; // null when sync is off
+  status: SyncStatus;
+  onSaveConfig: (config: SyncConfig | null) => void;
+  onSyncNow: () => void;
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString('zh-CN', {
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+const BACKEND_LABELS: Record<SyncBackend, string> = {
+  [SyncBackend.WEBDAV]: 'WebDAV（NAS、坚果云等）',
+  [SyncBackend.REST]: '自建服务器（REST）',
+};
+
+const SyncSettings: React.FC<SyncSettingsProps> = ({ config, status, onSaveConfig, onSyncNow }) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<SyncConfig>(() => config ?? {
+    backend: SyncBackend.WEBDAV,
+    url: '',
+    username: '',
+    password: '',
+  });
+
+  const isWebDav = draft.backend === SyncBackend.WEBDAV;
+  const canSave = /^https?:\/\/\S+$/.test(draft.url.trim());
+
+  const handleSave = () => {
+    onSaveConfig({ ...draft, url: draft.url.trim(), username: isWebDav ? draft.username.trim() : '' });
+    setEditing(false);
+  };
+
+  const handleTurnOff = () => {
+    if (window.confirm('关闭同步后，本机数据仍然保留，服务器上的数据不会被删除。确定关闭吗？')) {
+      onSaveConfig(null);
+    }
+  };
+
+  const statusText = () => {
+    switch (status.state) {
+      case 'syncing': return '正在同步…';
+      case 'offline': return '离线，修改已保存在本机，联网后自动同步';
+      case 'error': return status.message || '同步失败';
+      default: return status.lastSyncedAt ? `上次同步：${formatTime(status.lastSyncedAt)}` : '尚未同步';
+    }
+  };
+
+  if (config && !editing) {
+    return (
+      <div className="space-y-3">
+        <div className="p-3 rounded-xl bg-gray-50 border border-gray-100 text-sm">
+          <div className="font-medium text-gray-700">{BACKEND_LABELS[config.backend]}</div>
+          <div className="text-xs text-gray-400 break-all mt-0.5">{config.url}</div>
+          <div className={`text-xs mt-2 ${status.state === 'error' ? 'text-red-500' : 'text-gray-500'}`}>{statusText()}</div>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onSyncNow}
+            disabled={status.state === 'syncing'}
+            className="flex-1 py-2.5 px-4 rounded-xl bg-indigo-600 text-white font-medium hover:bg-indigo-700 disabled:opacity-50 transition-all"
+          >
+            立即同步
+          </button>
+          <button
+            onClick={() => { setDraft(config); setEditing(true); }}
+            className="py-2.5 px-4 rounded-xl border border-gray-200 bg-gray-50 text-gray-700 font-medium hover:bg-white transition-all"
+          >
+            修改
+          </button>
+          <button
+            onClick={handleTurnOff}
+            className="py-2.5 px-4 rounded-xl border border-gray-200 text-gray-500 font-medium hover:bg-red-50 hover:text-red-600 hover:border-red-200 transition-all"
+          >
+            关闭
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <select
+        value={draft.backend}
+        onChange={(e) => setDraft({ ...draft, backend: e.target.value as SyncBackend })}
+        className="w-full p-2.5 border border-gray-200 rounded-xl text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+      >
+        {Object.values(SyncBackend).map(backend => (
+          <option key={backend} value={backend}>{BACKEND_LABELS[backend]}</option>
+        ))}
+      </select>
+      <input
+        type="url"
+        value={draft.url}
+        onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+        placeholder={isWebDav ? 'https://nas.local/remote.php/dav/files/me/dictation' : 'https://nas.local:8080/api'}
+        className="w-full p-2.5 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+      />
+      {isWebDav && (
+        <input
+          type="text"
+          value={draft.username}
+          onChange={(e) => setDraft({ ...draft, username: e.target.value })}
+          placeholder="用户名"
+          autoComplete="username"
+          className="w-full p-2.5 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+        />
+      )}
+      <input
+        type="password"
+        value={draft.password}
+        onChange={(e) => setDraft({ ...draft, password: e.target.value })}
+        placeholder={isWebDav ? '密码（建议使用应用专用密码）' : '访问令牌（可选）'}
+        autoComplete="current-password"
+        className="w-full p-2.5 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+      />
+      <div className="flex gap-2">
+        <button
+          onClick={handleSave}
+          disabled={!canSave}
+          className="flex-1 py-2.5 px-4 rounded-xl bg-indigo-600 text-white font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+        >
+          保存并同步
+        </button>
+        {editing && (
+          <button
+            onClick={() => setEditing(false)}
+            className="py-2.5 px-4 rounded-xl border border-gray-200 text-gray-600 font-medium hover:bg-gray-50 transition-all"
+          >
+            取消
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SyncSettings;
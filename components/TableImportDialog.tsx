@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { WORD_COLUMNS, ColumnMapping, WordColumn, guessColumnMapping, rowsToWordRecords } from '../services/csvService';
+import { validateWords, WordsValidationResult } from '../services/schemaService';
+
+interface TableImportDialogProps {
+  fileName: string;
+  rows: string[][];
+  onConfirm: (result: WordsValidationResult) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+const TableImportDialog: React.FC<TableImportDialogProps> = ({ fileName, rows, onConfirm, onCancel }) => {
+  const [initial] = useState(() => guessColumnMapping(rows[0] || []));
+  const [mapping, setMapping] = useState<ColumnMapping>(initial.mapping);
+  const [hasHeader, setHasHeader] = useState(initial.hasHeader);
+  // Used for rows without a group column or with an empty group cell
+  const [groupTitle, setGroupTitle] = useState(() => fileName.replace(/\.[^.]+$/, '') || '导入的词库');
+
+  const columnCount = Math.max(...rows.map(r => r.length), 0);
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  const hasTextColumn = mapping.includes('text');
+
+  const setColumn = (index: number, field: WordColumn | null) => {
+    setMapping(prev => {
+      const next = [...prev];
+      while (next.length < columnCount) next.push(null);
+      // A field comes from one column only
+      const previous = next.indexOf(field);
+      if (field && previous !== -1) next[previous] = null;
+      next[index] = field;
+      return next;
+    });
+  };
+
+  const handleConfirm = () => {
+    const records = rowsToWordRecords(dataRows, mapping, groupTitle.trim() || '导入的词库');
+    onConfirm(validateWords(records));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div className="w-full max-w-2xl bg-white rounded-2xl shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-5 border-b border-gray-100 flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-gray-800">导入词表</h3>
+            <p className="text-xs text-gray-400 mt-1 break-all">{fileName} · {dataRows.length} 行</p>
+          </div>
+          <button className="text-gray-400 hover:text-gray-600 text-lg" onClick={onCancel}>✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-4">
+          <p className="text-sm text-gray-600">请为每一列选择对应的内容，至少需要一列“词语”。</p>
+
+          {/* Column Mapping + Preview */}
+          <div className="overflow-x-auto border border-gray-100 rounded-xl">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  {Array.from({ length: columnCount }, (_, index) => (
+                    <th key={index} className="p-2 text-left font-normal">
+                      <select
+                        value={mapping[index] || ''}
+                        onChange={(e) => setColumn(index, (e.target.value || null) as WordColumn | null)}
+                        className={`w-full min-w-[6rem] p-1.5 border rounded-lg text-xs bg-white ${mapping[index] ? 'border-indigo-300 text-indigo-700 font-bold' : 'border-gray-200 text-gray-400'}`}
+                      >
+                        <option value="">忽略此列</option>
+                        {WORD_COLUMNS.map(column => (
+                          <option key={column.field} value={column.field}>{column.label}</option>
+                        ))}
+                      </select>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {hasHeader && rows[0] && (
+                  <tr className="text-gray-400 line-through">
+                    {Array.from({ length: columnCount }, (_, index) => (
+                      <td key={index} className="p-2 whitespace-nowrap">{rows[0][index]}</td>
+                    ))}
+                  </tr>
+                )}
+                {dataRows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {Array.from({ length: columnCount }, (_, index) => (
+                      <td key={index} className={`p-2 whitespace-nowrap ${mapping[index] ? 'text-gray-800' : 'text-gray-300'}`}>{row[index]}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {dataRows.length > PREVIEW_ROWS && (
+            <p className="text-xs text-gray-400">只显示前 {PREVIEW_ROWS} 行</p>
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={hasHeader}
+              onChange={(e) => setHasHeader(e.target.checked)}
+              className="accent-indigo-600"
+            />
+            第一行是表头
+          </label>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {mapping.includes('groupTitle') ? '词库列为空时使用的词库名' : '导入到词库'}
+            </label>
+            <input
+              type="text"
+              value={groupTitle}
+              onChange={(e) => setGroupTitle(e.target.value)}
+              className="w-full p-2.5 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+          </div>
+        </div>
+
+        <div className="p-5 border-t border-gray-100 flex items-center justify-end gap-2">
+          {!hasTextColumn && <span className="text-xs text-red-500 mr-auto">请选择“词语”所在的列</span>}
+          <button className="px-4 py-2 text-sm rounded-lg border border-gray-200 text-gray-600 hover:bg-gray-50" onClick={onCancel}>取消</button>
+          <button
+            disabled={!hasTextColumn || dataRows.length === 0}
+            className="px-4 py-2 text-sm rounded-lg text-white font-bold bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            onClick={handleConfirm}
+          >
+            下一步
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TableImportDialog;
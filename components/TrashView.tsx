@@ -0,0 +1,96 @@
+import React from 'react';
+import { TrashEntry } from '../types';
+
+interface TrashViewProps {
+  entries: TrashEntry[]; // Newest first
+  retentionDays: number;
+  onBack: () => void;
+  onRestore: (entry: TrashEntry) => void;
+  onPurge: (entries: TrashEntry[]) => void;
+}
+
+const ONE_DAY = 24 * 60 * 60 * 1000;
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString('zh-CN', {
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+const TrashView: React.FC<TrashViewProps> = ({ entries, retentionDays, onBack, onRestore, onPurge }) => {
+  const now = Date.now();
+
+  const handlePurgeAll = () => {
+    if (window.confirm(`确定要彻底删除回收站中的 ${entries.length} 项吗？删除后无法恢复。`)) {
+      onPurge(entries);
+    }
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden">
+      <div className="p-4 md:p-6 border-b border-gray-100 flex items-center justify-between bg-gray-50">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">回收站</h2>
+          <p className="text-gray-500 text-sm mt-1">删除的词语保留 {retentionDays} 天，之后自动清除</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {entries.length > 0 && (
+            <button onClick={handlePurgeAll} className="px-3 py-1.5 text-sm rounded-lg border border-red-200 text-red-600 hover:bg-red-50">
+              清空
+            </button>
+          )}
+          <button onClick={onBack} className="p-2 hover:bg-gray-200 rounded-full transition-colors">
+            <svg className="w-6 h-6 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 md:p-4 space-y-3">
+        {entries.length === 0 ? (
+          <div className="text-center py-12 text-gray-400">回收站是空的</div>
+        ) : (
+          entries.map(entry => {
+            const daysLeft = Math.max(0, Math.ceil((entry.deletedAt + retentionDays * ONE_DAY - now) / ONE_DAY));
+            return (
+              <div key={entry.id} className="flex flex-col sm:flex-row sm:items-center justify-between p-3 md:p-4 rounded-xl border border-gray-100 gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${entry.isGroup ? 'bg-purple-100 text-purple-600' : 'bg-gray-100 text-gray-500'}`}>
+                      {entry.isGroup ? '词库' : '词语'}
+                    </span>
+                    <span className="text-lg font-bold text-gray-800 truncate">
+                      {entry.isGroup ? entry.groupTitle : entry.words[0]?.text}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-400 mt-1">
+                    {entry.isGroup ? `${entry.words.length} 个词语 · ` : `来自 ${entry.groupTitle} · `}
+                    {formatDate(entry.deletedAt)} 删除 · {daysLeft} 天后清除
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => onRestore(entry)}
+                    className="flex-1 sm:flex-none px-4 py-2 rounded-lg text-sm font-bold bg-indigo-50 text-indigo-600 hover:bg-indigo-100 transition-all"
+                  >
+                    恢复
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (window.confirm('彻底删除后无法恢复，确定吗？')) onPurge([entry]);
+                    }}
+                    className="flex-1 sm:flex-none px-4 py-2 rounded-lg text-sm font-bold border border-gray-200 text-gray-500 hover:bg-red-50 hover:text-red-600 hover:border-red-200 transition-all"
+                  >
+                    彻底删除
+                  </button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrashView;
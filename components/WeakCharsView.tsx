@@ -0,0 +1,98 @@
+import React, { useMemo, useState } from 'react';
+import { ReviewEvent, WordItem } from '../types';
+import { buildCharacterIndex, getWeakCharacters, wordsWithCharacters } from '../services/characterService';
+
+interface WeakCharsViewProps {
+  words: WordItem[];
+  reviewEvents: ReviewEvent[];
+  onBack: () => void;
+  onStart: (words: WordItem[]) => void; // Dictation of the words containing the selected characters
+}
+
+// Characters selected when the view opens
+const DEFAULT_SELECTION = 5;
+
+const WeakCharsView: React.FC<WeakCharsViewProps> = ({ words, reviewEvents, onBack, onStart }) => {
+  const weakChars = useMemo(() => getWeakCharacters(buildCharacterIndex(words, reviewEvents)), [words, reviewEvents]);
+  const [selected, setSelected] = useState<Set<string>>(
+    () => new Set(weakChars.slice(0, DEFAULT_SELECTION).map(stats => stats.char))
+  );
+
+  const practiceWords = useMemo(() => wordsWithCharacters(words, [...selected]), [words, selected]);
+
+  const toggle = (char: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(char)) next.delete(char);
+      else next.add(char);
+      return next;
+    });
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden">
+      <div className="p-4 md:p-6 border-b border-gray-100 flex items-center justify-between bg-gray-50">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">薄弱汉字</h2>
+          <p className="text-gray-500 text-sm mt-1">订正时点出的错字，按写错次数排列；选中的字会把含有它们的词一起听写</p>
+        </div>
+        <button onClick={onBack} className="p-2 hover:bg-gray-200 rounded-full transition-colors">
+          <svg className="w-6 h-6 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 md:p-6">
+        {weakChars.length === 0 ? (
+          <div className="text-center py-20 text-gray-400">
+            还没有记录错字。订正时把词标为写错后，点出具体写错的字即可。
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {weakChars.map(stats => {
+              const isSelected = selected.has(stats.char);
+              return (
+                <button
+                  key={stats.char}
+                  onClick={() => toggle(stats.char)}
+                  className={`p-3 rounded-xl border text-left flex items-center gap-4 transition-all ${
+                    isSelected ? 'border-red-300 bg-red-50 ring-2 ring-red-100' : 'border-gray-100 hover:border-red-200 hover:bg-red-50/40'
+                  }`}
+                >
+                  <span className={`w-14 h-14 flex-shrink-0 rounded-xl flex items-center justify-center text-3xl font-bold ${isSelected ? 'bg-red-500 text-white' : 'bg-gray-50 text-gray-800'}`}>
+                    {stats.char}
+                  </span>
+                  <div className="min-w-0">
+                    <div className="text-sm font-bold text-gray-700">
+                      写错 {stats.mistakes} 次
+                      {stats.attempts > 0 && (
+                        <span className="text-gray-400 font-normal"> · 错误率 {Math.round((stats.mistakes / stats.attempts) * 100)}%</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1 truncate" title={stats.words.map(w => w.text).join('、')}>
+                      {stats.words.map(w => w.text).join('、')}
+                    </div>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {weakChars.length > 0 && (
+        <div className="p-4 md:p-6 border-t border-gray-100 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <span className="text-sm text-gray-500">已选 {selected.size} 个字，共 {practiceWords.length} 个词</span>
+          <button
+            onClick={() => onStart(practiceWords)}
+            disabled={practiceWords.length === 0}
+            className="px-6 py-3 bg-gray-900 text-white rounded-xl font-bold shadow-md hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            听写这些词
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WeakCharsView;
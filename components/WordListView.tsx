@@ -1,16 +1,40 @@
-import React from 'react';
-import { WordItem } from '../types';
+import React, { useState, useMemo } from 'react';
+import { WordItem, ReviewEvent } from '../types';
 
 interface WordListViewProps {
     title: string;
     words: WordItem[];
+    reviewEvents: ReviewEvent[];
+    leechIds: Set<string>; // Words missed again and again
     onBack: () => void;
     onUpdateStatus: (word: WordItem, status: 'REVIEW' | 'MASTERED') => void;
+    onToggleSuspend: (word: WordItem) => void;
     onDeleteWord: (word: WordItem) => void;
 }
 
-const WordListView: React.FC<WordListViewProps> = ({ title, words, onBack, onUpdateStatus, onDeleteWord }) => {
+const formatEventTime = (timestamp: number) => new Date(timestamp).toLocaleString('zh-CN', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+});
+
+const WordListView: React.FC<WordListViewProps> = ({ title, words, reviewEvents, leechIds, onBack, onUpdateStatus, onToggleSuspend, onDeleteWord }) => {
     const now = Date.now();
+    const [expandedWordId, setExpandedWordId] = useState<string | null>(null);
+
+    // Review log per word, newest first
+    const eventsByWord = useMemo(() => {
+        const map = new Map<string, ReviewEvent[]>();
+        reviewEvents.forEach(event => {
+            const list = map.get(event.wordId) || [];
+            list.push(event);
+            map.set(event.wordId, list);
+        });
+        map.forEach(list => list.sort((a, b) => b.timestamp - a.timestamp));
+        return map;
+    }, [reviewEvents]);
 
     return (
         <div className="w-full h-full flex flex-col bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden">{/* Header */}
@@ -34,61 +58,100 @@ const WordListView: React.FC<WordListViewProps> = ({ title, words, onBack, onUpd
                         const isReview = !isMastered;
 
                         // Status labels
-                        const isDue = word.nextReview <= now && isReview;
+                        const isDue = word.nextReview <= now && isReview && !word.suspended;
                         const isNew = word.streak === 0 && word.lastReviewed === null;
+                        const wordEvents = eventsByWord.get(word.id) || [];
+                        const isExpanded = expandedWordId === word.id;
 
                         return (
-                            <div key={word.id} className="flex flex-col sm:flex-row sm:items-center justify-between p-3 md:p-4 rounded-xl border border-gray-100 hover:border-indigo-100 hover:bg-indigo-50/30 transition-all gap-4">
-                                <div className="flex items-center gap-4">
-                                    {/* Delete Button (Small x) */}
-                                    <button
-                                        onClick={() => onDeleteWord(word)}
-                                        className="text-gray-300 hover:text-red-500 transition-colors p-1"
-                                        title="删除此词"
-                                    >
-                                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
-                                    </button>
+                            <div key={word.id} className="rounded-xl border border-gray-100 hover:border-indigo-100 hover:bg-indigo-50/30 transition-all">
+                                <div className="flex flex-col sm:flex-row sm:items-center justify-between p-3 md:p-4 gap-4">
+                                    <div className="flex items-center gap-4">
+                                        {/* Delete Button (Small x) */}
+                                        <button
+                                            onClick={() => onDeleteWord(word)}
+                                            className="text-gray-300 hover:text-red-500 transition-colors p-1"
+                                            title="删除此词"
+                                        >
+                                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                                        </button>
 
-                                    <div>
-                                        <div className="flex items-center gap-2">
-                                            <span className="text-lg font-bold text-gray-800">{word.text}</span>
-                                            {isNew && <span className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-blue-100 text-blue-600">新词</span>}
-                                            {isDue && <span className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-amber-100 text-amber-700">该复习了</span>}
-                                        </div>
-                                        <div className="text-xs text-gray-400 mt-1">
-                                            熟练度: Lv.{word.streak}
+                                        <div>
+                                            <div className="flex items-center gap-2">
+                                                <span className="text-lg font-bold text-gray-800">{word.text}</span>
+                                                {isNew && <span className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-blue-100 text-blue-600">新词</span>}
+                                                {isDue && <span className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-amber-100 text-amber-700">该复习了</span>}
+                                                {leechIds.has(word.id) && <span className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-purple-100 text-purple-600" title={`错了 ${word.totalWrong} / ${word.totalAttempts} 次`}>难词</span>}
+                                                {word.suspended && <span className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-gray-100 text-gray-500">已暂停</span>}
+                                            </div>
+                                            <div className="text-xs text-gray-400 mt-1 flex items-center gap-3">
+                                                <span>熟练度: Lv.{word.streak}</span>
+                                                <button
+                                                    onClick={() => onToggleSuspend(word)}
+                                                    className="text-gray-400 hover:text-indigo-600 font-medium"
+                                                    title={word.suspended ? '重新加入日常复习' : '不再出现在日常复习中，只在“攻克难词”中练习'}
+                                                >
+                                                    {word.suspended ? '恢复复习' : '暂停复习'}
+                                                </button>
+                                                {wordEvents.length > 0 && (
+                                                    <button
+                                                        onClick={() => setExpandedWordId(isExpanded ? null : word.id)}
+                                                        className="text-indigo-500 hover:text-indigo-700 font-medium"
+                                                    >
+                                                        {isExpanded ? '收起记录' : `听写记录 (${wordEvents.length})`}
+                                                    </button>
+                                                )}
+                                            </div>
                                         </div>
                                     </div>
-                                </div>
 
-                                {/* Control Buttons */}
-                                <div className="flex items-center gap-2">
-                                    {/* Needs Review Button */}
-                                    <button
-                                        onClick={() => onUpdateStatus(word, 'REVIEW')}
-                                        className={`flex-1 sm:flex-none px-4 py-2 rounded-lg text-sm font-bold transition-all flex items-center justify-center gap-1 border ${isReview
-                                                ? 'bg-red-50 border-red-200 text-red-600 shadow-sm ring-1 ring-red-100'
-                                                : 'bg-white border-gray-200 text-gray-400 hover:bg-gray-50'
-                                            }`}
-                                        title="标记为需要复习/生词"
-                                    >
-                                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
-                                        需复习
-                                    </button>
+                                    {/* Control Buttons */}
+                                    <div className="flex items-center gap-2">
+                                        {/* Needs Review Button */}
+                                        <button
+                                            onClick={() => onUpdateStatus(word, 'REVIEW')}
+                                            className={`flex-1 sm:flex-none px-4 py-2 rounded-lg text-sm font-bold transition-all flex items-center justify-center gap-1 border ${isReview
+                                                    ? 'bg-red-50 border-red-200 text-red-600 shadow-sm ring-1 ring-red-100'
+                                                    : 'bg-white border-gray-200 text-gray-400 hover:bg-gray-50'
+                                                }`}
+                                            title="标记为需要复习/生词"
+                                        >
+                                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                                            需复习
+                                        </button>
 
-                                    {/* Mastered Button */}
-                                    <button
-                                        onClick={() => onUpdateStatus(word, 'MASTERED')}
-                                        className={`flex-1 sm:flex-none px-4 py-2 rounded-lg text-sm font-bold transition-all flex items-center justify-center gap-1 border ${isMastered
-                                                ? 'bg-green-50 border-green-200 text-green-600 shadow-sm ring-1 ring-green-100'
-                                                : 'bg-white border-gray-200 text-gray-400 hover:bg-gray-50'
-                                            }`}
-                                        title="标记为已掌握，暂停复习"
-                                    >
-                                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
-                                        已掌握
-                                    </button>
+                                        {/* Mastered Button */}
+                                        <button
+                                            onClick={() => onUpdateStatus(word, 'MASTERED')}
+                                            className={`flex-1 sm:flex-none px-4 py-2 rounded-lg text-sm font-bold transition-all flex items-center justify-center gap-1 border ${isMastered
+                                                    ? 'bg-green-50 border-green-200 text-green-600 shadow-sm ring-1 ring-green-100'
+                                                    : 'bg-white border-gray-200 text-gray-400 hover:bg-gray-50'
+                                                }`}
+                                            title="标记为已掌握，暂停复习"
+                                        >
+                                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
+                                            已掌握
+                                        </button>
+                                    </div>
                                 </div>
+
+                                {/* Review Timeline */}
+                                {isExpanded && (
+                                    <ol className="mx-3 md:mx-4 mb-3 border-l-2 border-gray-100 pl-4 space-y-2">
+                                        {wordEvents.map(event => (
+                                            <li key={event.id} className="relative text-xs">
+                                                <span className={`absolute -left-[1.4rem] top-0.5 w-2.5 h-2.5 rounded-full ${event.correct ? 'bg-green-500' : 'bg-red-500'}`}></span>
+                                                <span className="text-gray-500">{formatEventTime(event.timestamp)}</span>
+                                                <span className={`ml-2 font-bold ${event.correct ? 'text-green-600' : 'text-red-600'}`}>
+                                                    {event.correct ? '写对了' : '写错了'}
+                                                </span>
+                                                <span className="ml-2 text-gray-400">
+                                                    复习间隔 {event.previousInterval} 天 → {event.newInterval} 天
+                                                </span>
+                                            </li>
+                                        ))}
+                                    </ol>
+                                )}
                             </div>
                         );
                     })
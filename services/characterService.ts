@@ -0,0 +1,61 @@
+import { ReviewEvent, WordItem } from '../types';
+
+export interface CharacterStats {
+  char: string;
+  mistakes: number;              // Times marked wrong in corrections
+  attempts: number;              // Corrections of the words containing it
+  lastMistakeAt: number | null;
+  words: WordItem[];             // Words containing it, in list order
+}
+
+// Only Chinese characters are tracked; letters, digits and punctuation are skipped
+const HAN_PATTERN = /\p{Script=Han}/u;
+
+// The distinct characters of a word that can be marked wrong, in order
+export const wordCharacters = (text: string): string[] =>
+  [...new Set([...text].filter(char => HAN_PATTERN.test(char)))];
+
+/**
+ * Index every character of the current words. Mistakes come from the
+ * characters marked in the review log; events of deleted words are skipped,
+ * so restoring a word from the recycle bin brings its mistakes back.
+ */
+export const buildCharacterIndex = (words: WordItem[], events: ReviewEvent[]): Map<string, CharacterStats> => {
+  const index = new Map<string, CharacterStats>();
+  words.forEach(word => {
+    wordCharacters(word.text).forEach(char => {
+      const stats = index.get(char) ?? { char, mistakes: 0, attempts: 0, lastMistakeAt: null, words: [] };
+      stats.attempts += word.totalAttempts;
+      stats.words.push(word);
+      index.set(char, stats);
+    });
+  });
+
+  const wordIds = new Set(words.map(w => w.id));
+  events.forEach(event => {
+    if (!event.wrongChars || !wordIds.has(event.wordId)) return;
+    event.wrongChars.forEach(char => {
+      const stats = index.get(char);
+      if (!stats) return;
+      stats.mistakes += 1;
+      stats.lastMistakeAt = Math.max(stats.lastMistakeAt ?? 0, event.timestamp);
+    });
+  });
+  return index;
+};
+
+// Characters missed at least once: most mistakes first, then highest mistake rate, then most recent
+export const getWeakCharacters = (index: Map<string, CharacterStats>): CharacterStats[] =>
+  [...index.values()]
+    .filter(stats => stats.mistakes > 0)
+    .sort((a, b) =>
+      b.mistakes - a.mistakes ||
+      b.mistakes / Math.max(1, b.attempts) - a.mistakes / Math.max(1, a.attempts) ||
+      (b.lastMistakeAt ?? 0) - (a.lastMistakeAt ?? 0)
+    );
+
+// Every word containing at least one of the characters, each once
+export const wordsWithCharacters = (words: WordItem[], chars: string[]): WordItem[] => {
+  const wanted = new Set(chars);
+  return words.filter(word => wordCharacters(word.text).some(char => wanted.has(char)));
+};
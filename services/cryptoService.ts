@@ -0,0 +1,105 @@
+/**
+ * Passphrase-encrypted backup files. The backup JSON is encrypted with
+ * AES-GCM under a key derived from the passphrase with PBKDF2, and wrapped in
+ * a small JSON envelope that records the parameters needed to decrypt it.
+ */
+
+const ENCRYPTED_FORMAT = 'dictation-assistant-encrypted';
+const ENCRYPTED_VERSION = 1;
+// OWASP recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 310000;
+
+interface EncryptedBackup {
+  format: typeof ENCRYPTED_FORMAT;
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  data: string; // Base64 ciphertext including the GCM tag
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked, since spreading a large array overflows the call stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Whether the file contents are an encrypted backup (rather than a plain one)
+ */
+export const isEncryptedBackup = (text: string): boolean => {
+  try {
+    return JSON.parse(text)?.format === ENCRYPTED_FORMAT;
+  } catch {
+    return false;
+  }
+};
+
+export const encryptBackup = async (json: string, passphrase: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(json));
+
+  const envelope: EncryptedBackup = {
+    format: ENCRYPTED_FORMAT,
+    version: ENCRYPTED_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(data)),
+  };
+  return JSON.stringify(envelope, null, 2);
+};
+
+// Binary parameters of the envelope, or null when it is damaged
+const readEnvelope = (envelope: EncryptedBackup) => {
+  try {
+    const iterations = envelope.kdf.iterations;
+    if (!Number.isInteger(iterations) || iterations <= 0) return null;
+    return {
+      salt: fromBase64(envelope.kdf.salt),
+      iv: fromBase64(envelope.cipher.iv),
+      data: fromBase64(envelope.data),
+      iterations,
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Decrypt an encrypted backup back to the backup JSON.
+ * Throws a user-facing Error for a wrong passphrase or a damaged file.
+ */
+export const decryptBackup = async (text: string, passphrase: string): Promise<string> => {
+  const envelope = JSON.parse(text) as EncryptedBackup;
+  if (envelope.version > ENCRYPTED_VERSION) {
+    throw new Error('这个加密备份来自更新版本的应用，请先更新应用');
+  }
+  const params = readEnvelope(envelope);
+  if (!params) throw new Error('加密备份文件已损坏，无法读取');
+
+  const key = await deriveKey(passphrase, params.salt, params.iterations);
+  try {
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: params.iv }, key, params.data);
+    return new TextDecoder().decode(plain);
+  } catch {
+    // AES-GCM authentication fails for a wrong key
+    throw new Error('密码不正确，无法解密这个备份文件');
+  }
+};
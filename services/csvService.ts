@@ -0,0 +1,246 @@
+import { v4 as uuidv4 } from 'uuid';
+import { SchedulerAlgorithm, WordItem } from '../types';
+
+/**
+ * Spreadsheet (CSV/TSV) and Anki plain-text interchange for word lists.
+ * Only words and their scheduling fields travel in these formats; settings,
+ * profiles and review logs stay in the JSON backup.
+ */
+
+export type TableFormat = 'CSV' | 'TSV' | 'ANKI';
+
+// WordItem fields that can be mapped to a column; the id is always generated
+export type WordColumn =
+  | 'groupTitle' | 'text' | 'addedAt' | 'lastReviewed' | 'nextReview' | 'streak'
+  | 'easeFactor' | 'interval' | 'totalAttempts' | 'totalWrong' | 'lastWrongAt';
+
+export const WORD_COLUMNS: { field: WordColumn; label: string }[] = [
+  { field: 'groupTitle', label: '词库' },
+  { field: 'text', label: '词语' },
+  { field: 'addedAt', label: '添加时间' },
+  { field: 'lastReviewed', label: '上次复习' },
+  { field: 'nextReview', label: '下次复习' },
+  { field: 'streak', label: '连续正确' },
+  { field: 'easeFactor', label: '难度系数' },
+  { field: 'interval', label: '复习间隔' },
+  { field: 'totalAttempts', label: '听写次数' },
+  { field: 'totalWrong', label: '错误次数' },
+  { field: 'lastWrongAt', label: '上次错误' },
+];
+
+const TIMESTAMP_COLUMNS: WordColumn[] = ['addedAt', 'lastReviewed', 'nextReview', 'lastWrongAt'];
+const NULLABLE_COLUMNS: WordColumn[] = ['lastReviewed', 'lastWrongAt'];
+
+// Column index -> field, null for ignored columns
+export type ColumnMapping = (WordColumn | null)[];
+
+// Anki "Notes in Plain Text" header lines
+const ANKI_HEADER = ['#separator:tab', '#html:false'];
+
+// ==================== Encoding ====================
+
+/**
+ * Decode a text file. UTF-8 (with or without BOM) and UTF-16 with BOM are
+ * detected; anything that is not valid UTF-8 is read as GBK, which is what
+ * Excel and WPS on Chinese Windows save by default.
+ */
+export const decodeText = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes.subarray(2));
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+
+  try {
+    // The default decoder drops a UTF-8 BOM
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('gbk').decode(bytes);
+  }
+};
+
+// ==================== Parsing ====================
+
+/**
+ * Guess the delimiter: an Anki "#separator" header wins, otherwise tabs and
+ * commas outside quotes are counted on the first content line.
+ */
+export const detectDelimiter = (text: string): ',' | '\t' => {
+  const lines = text.split(/\r?\n/);
+  const separator = lines.find(line => line.startsWith('#separator:'));
+  if (separator) return /comma/i.test(separator) ? ',' : '\t';
+
+  const firstLine = (lines.find(line => line.trim() !== '' && !line.startsWith('#')) || '')
+    .replace(/"(?:[^"]|"")*"/g, '');
+  return firstLine.split('\t').length > firstLine.split(',').length ? '\t' : ',';
+};
+
+/**
+ * Split delimited text into rows of cells (RFC 4180): quoted cells may contain
+ * delimiters, line breaks and doubled quotes. Blank lines and Anki header
+ * lines starting with '#' are skipped.
+ */
+export const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let atLineStart = true;
+  let skipLine = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (!skipLine && row.some(c => c.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+    atLineStart = true;
+    skipLine = false;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (atLineStart && char === '#') skipLine = true;
+    atLineStart = false;
+
+    if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+
+  return rows;
+};
+
+const normalizeHeader = (value: string) => value.trim().toLowerCase().replace(/[\s_]/g, '');
+
+/**
+ * Map header cells to word fields by their Chinese label or field name.
+ * Without a recognizable header, a single column is the word and two columns
+ * are read as word + group (the layout of an Anki export).
+ */
+export const guessColumnMapping = (firstRow: string[]): { mapping: ColumnMapping; hasHeader: boolean } => {
+  const mapping = firstRow.map(cell => {
+    const key = normalizeHeader(cell);
+    const column = WORD_COLUMNS.find(c => normalizeHeader(c.label) === key || c.field.toLowerCase() === key);
+    return column ? column.field : null;
+  });
+
+  if (mapping.includes('text')) return { mapping, hasHeader: true };
+
+  return {
+    mapping: firstRow.map((_, index) => index === 0 ? 'text' : index === 1 ? 'groupTitle' : null),
+    hasHeader: false,
+  };
+};
+
+const parseCell = (field: WordColumn, value: string): unknown => {
+  const trimmed = value.trim();
+  if (field === 'text' || field === 'groupTitle') return trimmed;
+  if (trimmed === '') return NULLABLE_COLUMNS.includes(field) ? null : undefined;
+
+  const number = Number(trimmed);
+  if (!Number.isNaN(number)) return number;
+  if (TIMESTAMP_COLUMNS.includes(field)) {
+    const date = Date.parse(trimmed);
+    if (!Number.isNaN(date)) return date;
+  }
+  // Left as text so validation reports it
+  return trimmed;
+};
+
+/**
+ * Turn table rows into raw word records for validateWords. Fields without a
+ * column get the values of a newly added word, so only mapped cells can be
+ * reported as invalid.
+ */
+export const rowsToWordRecords = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  defaultGroupTitle: string,
+  now: number = Date.now()
+): Record<string, unknown>[] => {
+  return rows.map(row => {
+    const record: Record<string, unknown> = {
+      id: uuidv4(),
+      text: '',
+      groupTitle: defaultGroupTitle,
+      addedAt: now,
+      lastReviewed: null,
+      nextReview: now,
+      streak: 0,
+      easeFactor: 2.5,
+      interval: 0,
+      algorithm: SchedulerAlgorithm.MASTERY,
+      stability: 0,
+      difficulty: 0,
+      suspended: false,
+      totalAttempts: 0,
+      totalWrong: 0,
+      lastWrongAt: null,
+      updatedAt: now,
+    };
+    mapping.forEach((field, index) => {
+      if (!field || row[index] === undefined) return;
+      const value = parseCell(field, row[index]);
+      if (value !== undefined && !(field === 'groupTitle' && value === '')) record[field] = value;
+    });
+    return record;
+  });
+};
+
+// ==================== Export ====================
+
+const quoteCell = (value: string, delimiter: string) =>
+  value.includes(delimiter) || value.includes('"') || value.includes('\n') || value.includes('\r')
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+
+const formatTimestamp = (value: number | null) => value === null ? '' : new Date(value).toISOString();
+
+const cellValue = (word: WordItem, field: WordColumn): string => {
+  const value = word[field];
+  if (TIMESTAMP_COLUMNS.includes(field)) return formatTimestamp(value as number | null);
+  return String(value);
+};
+
+/**
+ * Serialize words in the given format. CSV starts with a UTF-8 BOM so Excel
+ * opens Chinese text correctly; the Anki file has one note per word with the
+ * group title as the second field.
+ */
+export const wordsToTable = (words: WordItem[], format: TableFormat): string => {
+  if (format === 'ANKI') {
+    const lines = words.map(w => [w.text, w.groupTitle].map(v => quoteCell(v, '\t')).join('\t'));
+    return [...ANKI_HEADER, ...lines].join('\n') + '\n';
+  }
+
+  const delimiter = format === 'CSV' ? ',' : '\t';
+  const header = WORD_COLUMNS.map(c => c.label);
+  const lines = words.map(w => WORD_COLUMNS.map(c => quoteCell(cellValue(w, c.field), delimiter)).join(delimiter));
+  const body = [header.join(delimiter), ...lines].join('\r\n') + '\r\n';
+  return format === 'CSV' ? `\uFEFF${body}` : body;
+};
+
+export const TABLE_FILE_INFO: Record<TableFormat, { extension: string; mimeType: string; label: string }> = {
+  CSV: { extension: 'csv', mimeType: 'text/csv', label: 'CSV（Excel）' },
+  TSV: { extension: 'tsv', mimeType: 'text/tab-separated-values', label: 'TSV' },
+  ANKI: { extension: 'txt', mimeType: 'text/plain', label: 'Anki 文本' },
+};
@@ -0,0 +1,172 @@
+import { DictationEngine, DictationState } from './dictationEngine';
+
+/**
+ * Ways to steer a dictation without touching the screen: keyboard shortcuts,
+ * and the play/pause/next buttons of headsets and the lock screen through the
+ * Media Session API. Browsers only route those buttons to a page that plays
+ * media, and speech synthesis does not count, so a silent audio loop plays
+ * alongside the dictation.
+ */
+
+export type DictationCommand = 'TOGGLE_PAUSE' | 'PAUSE' | 'RESUME' | 'REPLAY' | 'SKIP' | 'PREVIOUS' | 'FINISH';
+
+export interface DictationShortcut {
+  keys: string[];  // KeyboardEvent.key values
+  label: string;   // Shown in the cheat sheet
+  command: DictationCommand;
+  description: string;
+}
+
+export const DICTATION_SHORTCUTS: DictationShortcut[] = [
+  { keys: [' '], label: '空格', command: 'TOGGLE_PAUSE', description: '暂停 / 继续' },
+  { keys: ['r', 'R'], label: 'R', command: 'REPLAY', description: '再读一遍' },
+  { keys: ['ArrowRight'], label: '→', command: 'SKIP', description: '跳过等待，读下一个' },
+  { keys: ['ArrowLeft'], label: '←', command: 'PREVIOUS', description: '回到上一个' },
+  { keys: ['Escape'], label: 'Esc', command: 'FINISH', description: '结束听写' },
+];
+
+// Shortcuts with Ctrl, Alt or Cmd belong to the browser
+export const commandForKey = (event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'altKey' | 'metaKey'>): DictationCommand | null => {
+  if (event.ctrlKey || event.altKey || event.metaKey) return null;
+  return DICTATION_SHORTCUTS.find(shortcut => shortcut.keys.includes(event.key))?.command ?? null;
+};
+
+export const runDictationCommand = (engine: DictationEngine, command: DictationCommand): void => {
+  switch (command) {
+    case 'TOGGLE_PAUSE':
+      if (engine.getState().phase === 'PAUSED') engine.resume();
+      else engine.pause();
+      return;
+    // Both do nothing when the dictation is already paused or running
+    case 'PAUSE':
+      return engine.pause();
+    case 'RESUME':
+      return engine.resume();
+    case 'REPLAY':
+      return engine.replay();
+    case 'SKIP':
+      return engine.skip();
+    case 'PREVIOUS':
+      return engine.previous();
+    case 'FINISH':
+      return engine.finish();
+  }
+};
+
+// ==================== Media Session ====================
+
+const MEDIA_ACTIONS: [MediaSessionAction, DictationCommand][] = [
+  ['play', 'RESUME'],
+  ['pause', 'PAUSE'],
+  ['nexttrack', 'SKIP'],
+  ['previoustrack', 'PREVIOUS'],
+];
+
+/**
+ * Send headset and lock-screen buttons to `run`. Returns the function that
+ * removes the handlers again. Browsers without Media Session are left alone.
+ */
+export const bindMediaSession = (run: (command: DictationCommand) => void, mediaSession: MediaSession | undefined = navigator.mediaSession): (() => void) => {
+  if (!mediaSession) return () => undefined;
+  const bound: MediaSessionAction[] = [];
+  for (const [action, command] of MEDIA_ACTIONS) {
+    try {
+      mediaSession.setActionHandler(action, () => run(command));
+      bound.push(action);
+    } catch {
+      // The browser does not know this action
+    }
+  }
+  return () => {
+    for (const action of bound) mediaSession.setActionHandler(action, null);
+    mediaSession.metadata = null;
+    mediaSession.playbackState = 'none';
+  };
+};
+
+const PHASE_LABELS: Record<DictationState['phase'], string> = {
+  INIT: '正在准备',
+  PLAYING: '正在朗读',
+  WAITING: '请写下来',
+  PAUSED: '已暂停',
+  DONE: '听写完成',
+  ERROR: '播放失败',
+};
+
+// What the lock screen shows: the position only, never the word being dictated
+export const mediaMetadataFor = (state: DictationState, wordCount: number): MediaMetadataInit => ({
+  title: `第 ${Math.min(state.index + 1, wordCount)} / ${wordCount} 个`,
+  artist: PHASE_LABELS[state.phase],
+  album: '智能听写小助手',
+});
+
+// The silent loop plays while the dictation runs, and is paused with it
+export const isMediaPlaying = (phase: DictationState['phase']): boolean =>
+  phase === 'PLAYING' || phase === 'WAITING' || phase === 'ERROR';
+
+export const updateMediaSession = (state: DictationState, wordCount: number, mediaSession: MediaSession | undefined = navigator.mediaSession): void => {
+  if (!mediaSession) return;
+  if (typeof MediaMetadata !== 'undefined') mediaSession.metadata = new MediaMetadata(mediaMetadataFor(state, wordCount));
+  mediaSession.playbackState = isMediaPlaying(state.phase) ? 'playing' : state.phase === 'PAUSED' ? 'paused' : 'none';
+};
+
+// ==================== Silent Audio ====================
+
+// Chrome shows media controls only for media of at least five seconds
+const SILENCE_SECONDS = 5;
+const SILENCE_SAMPLE_RATE = 8000;
+
+/** A WAV file of silence: 8-bit mono PCM, where silence is the sample value 128. */
+export const silentWavDataUri = (seconds: number = SILENCE_SECONDS, sampleRate: number = SILENCE_SAMPLE_RATE): string => {
+  const samples = seconds * sampleRate;
+  const bytes = new Uint8Array(44 + samples);
+  const view = new DataView(bytes.buffer);
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) bytes[offset + i] = text.charCodeAt(i);
+  };
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + samples, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true);         // Size of the format chunk
+  view.setUint16(20, 1, true);          // PCM
+  view.setUint16(22, 1, true);          // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate, true); // Bytes per second
+  view.setUint16(32, 1, true);          // Bytes per sample
+  view.setUint16(34, 8, true);          // Bits per sample
+  writeText(36, 'data');
+  view.setUint32(40, samples, true);
+  bytes.fill(128, 44);
+
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:audio/wav;base64,${btoa(binary)}`;
+};
+
+export interface SilentAudio {
+  setPlaying: (playing: boolean) => void;
+  destroy: () => void;
+}
+
+/**
+ * Loop silence so the page counts as playing media. Playback the browser
+ * refuses, e.g. without a user gesture, only costs the headset controls.
+ */
+export const createSilentAudio = (audio: HTMLAudioElement = new Audio()): SilentAudio => {
+  audio.src = silentWavDataUri();
+  audio.loop = true;
+  return {
+    setPlaying: playing => {
+      if (!playing) audio.pause();
+      else if (audio.paused) audio.play().catch(() => undefined);
+    },
+    destroy: () => {
+      audio.pause();
+      audio.removeAttribute('src');
+      audio.load();
+    },
+  };
+};
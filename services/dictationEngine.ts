@@ -0,0 +1,333 @@
+import { PlaybackOrder, WordItem } from '../types';
+
+/**
+ * Playback of a dictation as an explicit state machine.
+ *
+ *   INIT --START--> PLAYING --SPOKEN--> PLAYING (next repeat)
+ *                      |                   |
+ *                      +------SPOKEN-------+--> WAITING --TICK (time up)--> PLAYING (next word) / DONE
+ *
+ * PAUSE/RESUME work while PLAYING or WAITING, REPLAY reads the word once more
+ * while WAITING, SKIP, PREVIOUS and JUMP move to another word from any playing
+ * state, FINISH ends the dictation early, and a failed reading goes to ERROR
+ * until RETRY. A word counts as played once its first reading has ended, so
+ * words skipped or jumped over stay out of the correction. `dictationReducer`
+ * holds all transitions and is pure; `createDictationEngine` runs the timers
+ * and speech for it.
+ */
+
+export type DictationPhase = 'INIT' | 'PLAYING' | 'WAITING' | 'PAUSED' | 'DONE' | 'ERROR';
+
+export interface DictationState {
+  phase: DictationPhase;
+  index: number;      // Word in the play queue; equals the word count once all were dictated
+  repeat: number;     // Readings of the current word already done in this round
+  waitEndsAt: number; // WAITING: when the writing time is over
+  waitLeftMs: number; // PAUSED while waiting: writing time still left
+  timeLeft: number;   // Whole seconds of writing time shown to the child
+  pausedPhase: 'PLAYING' | 'WAITING' | null;
+  played: number[];   // Queue indices read out at least once, ascending; words skipped or jumped over are not in it
+  replays: Record<number, number>; // Extra hearings per queue index: replays and going back to a played word
+  error: string | null;
+}
+
+export type DictationEvent =
+  | { type: 'START'; index?: number; played?: number[]; replays?: Record<number, number> } // Where an interrupted dictation left off
+  | { type: 'SPOKEN'; at: number }   // One reading has ended
+  | { type: 'TICK'; at: number }     // Writing time passes
+  | { type: 'PAUSE'; at: number }
+  | { type: 'RESUME'; at: number }
+  | { type: 'SKIP' }
+  | { type: 'PREVIOUS' }
+  | { type: 'JUMP'; index: number }
+  | { type: 'REPLAY'; at: number }    // Read the word again while the child writes
+  | { type: 'FINISH' }
+  | { type: 'FAIL'; message: string } // The reading could not be played
+  | { type: 'RETRY' };
+
+export interface DictationConfig {
+  wordCount: number;
+  autoRepeat: number;                   // Readings of each word
+  writingTime: (index: number) => number; // Milliseconds to write the word at `index`
+  replayExtension: number;              // Milliseconds added to the writing time by a replay
+}
+
+export const INITIAL_DICTATION_STATE: DictationState = {
+  phase: 'INIT',
+  index: 0,
+  repeat: 0,
+  waitEndsAt: 0,
+  waitLeftMs: 0,
+  timeLeft: 0,
+  pausedPhase: null,
+  played: [],
+  replays: {},
+  error: null,
+};
+
+const toSeconds = (ms: number) => Math.max(0, Math.ceil(ms / 1000));
+
+// Start reading the word at `index`, or finish after the last one
+const playWord = (state: DictationState, index: number, config: DictationConfig): DictationState =>
+  index >= config.wordCount
+    ? { ...state, phase: 'DONE', index: config.wordCount, pausedPhase: null, timeLeft: 0 }
+    : {
+      ...state,
+      phase: 'PLAYING',
+      index,
+      repeat: 0,
+      timeLeft: 0,
+      pausedPhase: null,
+      error: null,
+    };
+
+const markPlayed = (played: number[], index: number): number[] =>
+  played.includes(index) ? played : [...played, index].sort((a, b) => a - b);
+
+// Going back to a word that was already read counts as hearing it again
+const revisit = (state: DictationState, index: number): DictationState =>
+  state.played.includes(index) ? { ...state, replays: { ...state.replays, [index]: (state.replays[index] ?? 0) + 1 } } : state;
+
+const isActive = (state: DictationState) =>
+  state.phase === 'PLAYING' || state.phase === 'WAITING' || state.phase === 'PAUSED' || state.phase === 'ERROR';
+
+/**
+ * The next state after `event`. Events that do not apply in the current phase
+ * return the same state object, so callers can tell nothing happened.
+ */
+export const dictationReducer = (state: DictationState, event: DictationEvent, config: DictationConfig): DictationState => {
+  switch (event.type) {
+    case 'START':
+      return state.phase === 'INIT'
+        ? playWord({ ...state, played: event.played ?? [], replays: event.replays ?? {} }, event.index ?? 0, config)
+        : state;
+
+    case 'SPOKEN': {
+      if (state.phase !== 'PLAYING') return state;
+      const played = markPlayed(state.played, state.index);
+      if (state.repeat + 1 < config.autoRepeat) return { ...state, repeat: state.repeat + 1, played };
+      const writingTime = config.writingTime(state.index);
+      return { ...state, phase: 'WAITING', repeat: 0, played, waitEndsAt: event.at + writingTime, timeLeft: toSeconds(writingTime) };
+    }
+
+    case 'TICK':
+      if (state.phase !== 'WAITING') return state;
+      return event.at >= state.waitEndsAt
+        ? playWord(state, state.index + 1, config)
+        : { ...state, timeLeft: toSeconds(state.waitEndsAt - event.at) };
+
+    case 'PAUSE':
+      if (state.phase === 'PLAYING') return { ...state, phase: 'PAUSED', pausedPhase: 'PLAYING' };
+      if (state.phase === 'WAITING') {
+        const waitLeftMs = Math.max(0, state.waitEndsAt - event.at);
+        return { ...state, phase: 'PAUSED', pausedPhase: 'WAITING', waitLeftMs, timeLeft: toSeconds(waitLeftMs) };
+      }
+      return state;
+
+    case 'RESUME':
+      if (state.phase !== 'PAUSED') return state;
+      // An interrupted reading starts over
+      return state.pausedPhase === 'WAITING'
+        ? { ...state, phase: 'WAITING', pausedPhase: null, waitEndsAt: event.at + state.waitLeftMs }
+        : { ...state, phase: 'PLAYING', pausedPhase: null };
+
+    case 'SKIP':
+      return isActive(state) ? playWord(state, state.index + 1, config) : state;
+
+    case 'PREVIOUS':
+      return isActive(state) && state.index > 0 ? playWord(revisit(state, state.index - 1), state.index - 1, config) : state;
+
+    case 'JUMP':
+      return isActive(state) && event.index !== state.index && event.index >= 0 && event.index < config.wordCount
+        ? playWord(revisit(state, event.index), event.index, config)
+        : state;
+
+    case 'REPLAY': {
+      // The countdown goes on, longer by the configured extension
+      if (state.phase !== 'WAITING') return state;
+      const waitEndsAt = state.waitEndsAt + config.replayExtension;
+      return {
+        ...state,
+        waitEndsAt,
+        timeLeft: toSeconds(waitEndsAt - event.at),
+        replays: { ...state.replays, [state.index]: (state.replays[state.index] ?? 0) + 1 },
+      };
+    }
+
+    case 'FINISH':
+      return state.phase === 'DONE' ? state : { ...state, phase: 'DONE', pausedPhase: null, timeLeft: 0 };
+
+    case 'FAIL':
+      return state.phase === 'PLAYING' ? { ...state, phase: 'ERROR', error: event.message } : state;
+
+    case 'RETRY':
+      return state.phase === 'ERROR' ? playWord(state, state.index, config) : state;
+  }
+};
+
+// ==================== Engine ====================
+
+type TimerHandle = ReturnType<typeof setTimeout>;
+
+export interface EngineClock {
+  now: () => number;
+  setTimeout: (callback: () => void, ms: number) => TimerHandle;
+  clearTimeout: (handle: TimerHandle) => void;
+}
+
+export interface SpeechDriver {
+  warmup: () => Promise<void>;
+  speak: (text: string) => Promise<void>; // Settles once the reading has ended
+  cancel: () => void;
+}
+
+export interface DictationEngineOptions {
+  words: WordItem[]; // In play order
+  autoRepeat: number;
+  writingTime: (word: WordItem) => number; // Milliseconds
+  replayExtension?: number; // Milliseconds, default 0
+  resume?: { index: number; played: number[]; replays: Record<number, number> }; // Continue an interrupted dictation
+  clock: EngineClock;
+  speech: SpeechDriver;
+  onChange: (state: DictationState) => void;
+}
+
+export interface DictationEngine {
+  start: () => void;
+  pause: () => void;
+  resume: () => void;
+  skip: () => void;
+  previous: () => void;
+  jump: (index: number) => void;
+  replay: () => void;
+  finish: () => void;
+  retry: () => void;
+  destroy: () => void; // Stops speech and timers; later calls do nothing
+  getState: () => DictationState;
+}
+
+export const systemClock: EngineClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle),
+};
+
+// Pause before the first reading of a word, and between readings of the same word
+export const LEAD_IN_MS = 300;
+export const REPEAT_GAP_MS = 800;
+
+/**
+ * Run a dictation. Every transition invalidates the timer and reading of the
+ * previous state, so a reading that ends or a timer that fires after a skip
+ * or pause no longer moves the dictation on.
+ */
+export const createDictationEngine = (options: DictationEngineOptions): DictationEngine => {
+  const { words, clock, speech, onChange } = options;
+  const config: DictationConfig = {
+    wordCount: words.length,
+    autoRepeat: Math.max(1, options.autoRepeat),
+    writingTime: index => options.writingTime(words[index]),
+    replayExtension: options.replayExtension ?? 0,
+  };
+
+  let state = INITIAL_DICTATION_STATE;
+  let generation = 0;
+  let timer: TimerHandle | null = null;
+  let destroyed = false;
+
+  const clearTimer = () => {
+    if (timer !== null) clock.clearTimeout(timer);
+    timer = null;
+  };
+
+  const read = (current: number) => {
+    speech.speak(words[state.index].text).then(
+      () => { if (current === generation) dispatch({ type: 'SPOKEN', at: clock.now() }); },
+      (err: Error) => { if (current === generation) dispatch({ type: 'FAIL', message: err.message || '播放失败，请检查语音设置' }); }
+    );
+  };
+
+  // Wake up whenever the shown seconds change, and when the time is up
+  const scheduleTick = () => {
+    const left = state.waitEndsAt - clock.now();
+    const delay = left > 0 ? ((left - 1) % 1000) + 1 : 0;
+    timer = clock.setTimeout(() => dispatch({ type: 'TICK', at: clock.now() }), delay);
+  };
+
+  const dispatch = (event: DictationEvent) => {
+    if (destroyed) return;
+    const previous = state;
+    const next = dictationReducer(previous, event, config);
+    if (next === previous) return;
+
+    state = next;
+    generation += 1;
+    clearTimer();
+    // Stop a reading that is cut short, including a replay while waiting
+    if ((previous.phase === 'PLAYING' && event.type !== 'SPOKEN') || (previous.phase === 'WAITING' && next.phase !== 'WAITING')) {
+      speech.cancel();
+    }
+
+    if (next.phase === 'PLAYING') {
+      const current = generation;
+      timer = clock.setTimeout(() => read(current), next.repeat > 0 ? REPEAT_GAP_MS : LEAD_IN_MS);
+    } else if (next.phase === 'WAITING') {
+      scheduleTick();
+      // How the replay ends does not matter, the countdown runs meanwhile
+      if (event.type === 'REPLAY') speech.speak(words[next.index].text).catch(() => undefined);
+    }
+    onChange(next);
+  };
+
+  return {
+    start: () => {
+      speech.warmup().catch(() => undefined).then(() => dispatch({ type: 'START', ...options.resume }));
+    },
+    pause: () => dispatch({ type: 'PAUSE', at: clock.now() }),
+    resume: () => dispatch({ type: 'RESUME', at: clock.now() }),
+    skip: () => dispatch({ type: 'SKIP' }),
+    previous: () => dispatch({ type: 'PREVIOUS' }),
+    jump: index => dispatch({ type: 'JUMP', index }),
+    replay: () => dispatch({ type: 'REPLAY', at: clock.now() }),
+    finish: () => dispatch({ type: 'FINISH' }),
+    retry: () => dispatch({ type: 'RETRY' }),
+    destroy: () => {
+      if (destroyed) return;
+      destroyed = true;
+      clearTimer();
+      speech.cancel();
+    },
+    getState: () => state,
+  };
+};
+
+// ==================== Helpers ====================
+
+/**
+ * Seconds to write a word: Chinese characters count fully, letters as half a
+ * character. At least one second.
+ */
+export const writingSeconds = (text: string, perCharInterval: number): number => {
+  let chineseCount = 0;
+  let letterCount = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    // CJK Unified Ideographs
+    if (code >= 0x4e00 && code <= 0x9fff) chineseCount++;
+    else if (/[a-zA-Z]/.test(char)) letterCount++;
+  }
+  return Math.round(Math.max(1, (chineseCount + letterCount / 2) * perCharInterval));
+};
+
+// Play queue for the chosen order; `random` is injectable for tests
+export const orderWords = (words: WordItem[], order: PlaybackOrder, random: () => number = Math.random): WordItem[] => {
+  const queue = [...words];
+  if (order === PlaybackOrder.REVERSE) return queue.reverse();
+  if (order === PlaybackOrder.SHUFFLE) {
+    for (let i = queue.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [queue[i], queue[j]] = [queue[j], queue[i]];
+    }
+  }
+  return queue;
+};
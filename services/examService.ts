@@ -0,0 +1,45 @@
+import { DictationSettings, WordItem } from '../types';
+import { toDateKey } from './planService';
+
+type ExamSettings = Pick<DictationSettings, 'examDates' | 'examReviewCount'>;
+
+const ONE_DAY = 24 * 60 * 60 * 1000;
+
+// Midnight at the start of a local day given as YYYY-MM-DD
+const parseDateKey = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+};
+
+// Whole days until the exam: 0 on the exam day, negative once it is over
+export const daysUntilExam = (examDate: string, now: number = Date.now()): number =>
+  Math.round((parseDateKey(examDate) - parseDateKey(toDateKey(now))) / ONE_DAY);
+
+// The group's exam date while the exam is today or still ahead
+export const getUpcomingExam = (settings: ExamSettings, groupTitle: string, now: number = Date.now()): string | null => {
+  const examDate = settings.examDates[groupTitle];
+  return examDate !== undefined && daysUntilExam(examDate, now) >= 0 ? examDate : null;
+};
+
+// One extra review per wrong answer, up to twice the configured count
+export const examReviewsNeeded = (word: WordItem, reviewCount: number): number =>
+  reviewCount + Math.min(word.totalWrong, reviewCount);
+
+/**
+ * Bring a word's next review forward so it comes up at least
+ * `examReviewsNeeded` times before its group's exam, spread evenly over the
+ * days left with at most one review a day. Only nextReview changes: the
+ * scheduler's interval is kept, so the first review after the exam is
+ * scheduled as usual again.
+ */
+export const applyExamSchedule = (word: WordItem, settings: ExamSettings, now: number = Date.now()): WordItem => {
+  const examDate = getUpcomingExam(settings, word.groupTitle, now);
+  if (examDate === null) return word;
+  const daysLeft = daysUntilExam(examDate, now);
+  if (daysLeft === 0) return word;
+
+  const gapDays = Math.max(1, Math.floor(daysLeft / (examReviewsNeeded(word, settings.examReviewCount) + 1)));
+  const today = new Date(now);
+  const due = new Date(today.getFullYear(), today.getMonth(), today.getDate() + gapDays).getTime();
+  return word.nextReview > due ? { ...word, nextReview: due, updatedAt: now } : word;
+};
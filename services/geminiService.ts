@@ -116,7 +116,7 @@ const ensureVoicesLoaded = (): Promise<SpeechSynthesisVoice[]> => {
   });
 };
 
-export const speakText = async (text: string, voiceName: string): Promise<void> => {
+export const speakText = async (text: string, voiceName: string, rate: number = 0.9): Promise<void> => {
   if (!('speechSynthesis' in window)) {
     throw new Error("您的浏览器不支持语音合成功能");
   }
@@ -166,7 +166,7 @@ export const speakText = async (text: string, voiceName: string): Promise<void>
 
     // Attempt to set lang based on text (defaults to zh-CN if not specified)
     utterance.lang = 'zh-CN';
-    utterance.rate = 0.9; // Slightly slower for dictation clarity
+    utterance.rate = rate; // Slightly slower than normal speech by default, for dictation clarity
 
     let settled = false;
     let speechStarted = false;
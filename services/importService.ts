@@ -0,0 +1,188 @@
+import { v4 as uuidv4 } from 'uuid';
+import { WordItem, ImportMode, LearnerProfile, ReviewEvent } from '../types';
+
+const DEFAULT_GROUP_TITLE = '默认词库';
+
+export interface ImportGroupChange {
+  title: string;
+  isNew: boolean;
+  added: number;   // Words that do not exist locally yet
+  updated: number; // Local words replaced by a more recently reviewed copy
+  skipped: boolean; // Group ignored by the chosen mode
+}
+
+export interface ImportPlan {
+  mode: ImportMode;
+  words: WordItem[]; // Resulting word list after the import
+  added: number;
+  updated: number;
+  unchanged: number; // Matched words where the local copy was kept
+  removed: number;   // Local words that disappear (replace mode only)
+  groups: ImportGroupChange[];
+  idMap: Map<string, string>; // Imported word id -> local id, where they differ
+}
+
+const isSameWord = (a: WordItem, b: WordItem) => JSON.stringify(a) === JSON.stringify(b);
+
+const groupOf = (word: WordItem) => word.groupTitle || DEFAULT_GROUP_TITLE;
+const textKey = (word: WordItem) => `${groupOf(word)}\u0000${word.text}`;
+
+/**
+ * Combine a local word and its imported counterpart.
+ * The copy reviewed most recently wins for scheduling. Both copies usually
+ * descend from the same earlier export, so the stats counters are reconciled
+ * with max() rather than summed, which would double count the shared history.
+ * A result that differs from the local copy is stamped with `now`, so other
+ * tabs and synced devices take it as the newest version.
+ */
+export const mergeWord = (local: WordItem, incoming: WordItem, now: number = Date.now()): WordItem => {
+  const localReviewed = local.lastReviewed ?? 0;
+  const incomingReviewed = incoming.lastReviewed ?? 0;
+  const newer = incomingReviewed > localReviewed ? incoming : local;
+
+  const merged: WordItem = {
+    ...newer,
+    id: local.id, // Keep the local id so references on this device stay valid
+    totalAttempts: Math.max(local.totalAttempts, incoming.totalAttempts),
+    totalWrong: Math.max(local.totalWrong, incoming.totalWrong),
+    lastWrongAt: Math.max(local.lastWrongAt ?? 0, incoming.lastWrongAt ?? 0) || null,
+    updatedAt: local.updatedAt,
+  };
+  return isSameWord(merged, local) ? local : { ...merged, updatedAt: now };
+};
+
+/**
+ * Work out what importing `incoming` into `existing` would do, without applying it.
+ * The returned plan is used both for the preview and as the final word list.
+ */
+export const planImport = (existing: WordItem[], incoming: WordItem[], mode: ImportMode, now: number = Date.now()): ImportPlan => {
+  const groupChanges = new Map<string, ImportGroupChange>();
+  const existingGroups = new Set(existing.map(groupOf));
+
+  const changeFor = (title: string): ImportGroupChange => {
+    let change = groupChanges.get(title);
+    if (!change) {
+      change = { title, isNew: !existingGroups.has(title), added: 0, updated: 0, skipped: false };
+      groupChanges.set(title, change);
+    }
+    return change;
+  };
+
+  if (mode === ImportMode.REPLACE) {
+    incoming.forEach(word => changeFor(groupOf(word)).added++);
+    return {
+      mode,
+      words: incoming,
+      added: incoming.length,
+      updated: 0,
+      unchanged: 0,
+      removed: existing.length,
+      groups: [...groupChanges.values()],
+      idMap: new Map(),
+    };
+  }
+
+  if (mode === ImportMode.NEW_GROUPS) {
+    const added: WordItem[] = [];
+    const existingIds = new Set(existing.map(w => w.id));
+    incoming.forEach(word => {
+      const change = changeFor(groupOf(word));
+      if (!change.isNew) {
+        change.skipped = true;
+        return;
+      }
+      // Same record already on this device under another group title
+      if (existingIds.has(word.id)) return;
+      change.added++;
+      added.push(word);
+    });
+    return {
+      mode,
+      words: [...existing, ...added],
+      added: added.length,
+      updated: 0,
+      unchanged: 0,
+      removed: 0,
+      groups: [...groupChanges.values()],
+      idMap: new Map(),
+    };
+  }
+
+  // MERGE: match by id first, then by group title + text
+  const byId = new Map(existing.map(w => [w.id, w]));
+  const byText = new Map(existing.map(w => [textKey(w), w]));
+  const replacements = new Map<string, WordItem>();
+  const added: WordItem[] = [];
+  const idMap = new Map<string, string>();
+  let unchanged = 0;
+
+  incoming.forEach(word => {
+    const change = changeFor(groupOf(word));
+    const local = byId.get(word.id) || byText.get(textKey(word));
+
+    if (!local || replacements.has(local.id)) {
+      change.added++;
+      // Avoid an id clash when two imported records matched the same local word
+      if (byId.has(word.id)) {
+        const copy = { ...word, id: uuidv4() };
+        idMap.set(word.id, copy.id);
+        added.push(copy);
+      } else {
+        added.push(word);
+      }
+      return;
+    }
+
+    if (local.id !== word.id) idMap.set(word.id, local.id);
+    const merged = mergeWord(local, word, now);
+    if (merged === local) {
+      // Keep the original object so storage does not rewrite it
+      replacements.set(local.id, local);
+      unchanged++;
+    } else {
+      replacements.set(local.id, merged);
+      change.updated++;
+    }
+  });
+
+  const updatedCount = [...groupChanges.values()].reduce((sum, g) => sum + g.updated, 0);
+
+  return {
+    mode,
+    words: [...existing.map(w => replacements.get(w.id) || w), ...added],
+    added: added.length,
+    updated: updatedCount,
+    unchanged,
+    removed: 0,
+    groups: [...groupChanges.values()],
+    idMap,
+  };
+};
+
+/**
+ * Point imported review events at the words they ended up in and drop the
+ * ones already in the local log, so the log stays append-only.
+ */
+export const remapReviewEvents = (
+  existing: ReviewEvent[],
+  incoming: ReviewEvent[],
+  idMap: Map<string, string>
+): ReviewEvent[] => {
+  const known = new Set(existing.map(e => e.id));
+  return incoming
+    .filter(e => !known.has(e.id))
+    .map(e => idMap.has(e.wordId) ? { ...e, wordId: idMap.get(e.wordId)! } : e);
+};
+
+/**
+ * Local profile that an imported profile should be merged into:
+ * the same profile (by id) or one with the same name. undefined means a new
+ * profile will be created.
+ */
+export const findTargetProfile = (
+  source: LearnerProfile | null,
+  profiles: LearnerProfile[]
+): LearnerProfile | undefined => {
+  if (!source) return undefined;
+  return profiles.find(p => p.id === source.id) || profiles.find(p => p.name === source.name);
+};
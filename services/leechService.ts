@@ -0,0 +1,24 @@
+import { DictationSettings, WordItem } from '../types';
+
+type LeechLimits = Pick<DictationSettings, 'leechThreshold' | 'leechWrongRate'>;
+
+// Speech rate for leech practice; normal dictation uses 0.9
+export const LEECH_SPEECH_RATE = 0.7;
+// Times a missed leech is copied out before the correction can be saved
+export const LEECH_COPY_COUNT = 3;
+
+/**
+ * A leech is a word that keeps being missed: at least `leechThreshold` wrong
+ * answers, making up at least `leechWrongRate` percent of its attempts.
+ * Enough correct answers bring the rate down and the word recovers.
+ */
+export const isLeech = (word: WordItem, limits: LeechLimits): boolean =>
+  word.totalWrong >= limits.leechThreshold &&
+  word.totalWrong * 100 >= word.totalAttempts * limits.leechWrongRate;
+
+// Every word read three times, with half as much time again to write it
+export const leechPracticeSettings = (settings: DictationSettings): DictationSettings => ({
+  ...settings,
+  autoRepeat: 3,
+  perCharInterval: settings.perCharInterval * 1.5,
+});
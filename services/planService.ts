@@ -0,0 +1,145 @@
+import { DailyPlan, DictationSettings, WordItem } from '../types';
+
+const ONE_DAY = 24 * 60 * 60 * 1000;
+
+type PlanLimits = Pick<DictationSettings, 'dailyReviewLimit' | 'dailyNewLimit'>;
+
+export interface DailyPlanProgress {
+  reviewTotal: number;
+  reviewDone: number;
+  newTotal: number;
+  newDone: number;
+  remaining: WordItem[]; // Planned words not practised yet today, reviews first
+  backlog: number;       // Due words left out of today's plan
+  backlogDays: number;   // Days the backlog takes at the daily review limit
+}
+
+export interface ForecastDay {
+  date: string; // Local day, YYYY-MM-DD
+  start: number; // Midnight at the start of the day
+  words: WordItem[]; // Due on that day; today also holds everything overdue
+}
+
+// Local calendar day, e.g. "2024-06-01"; a new plan is made after midnight
+export const toDateKey = (time: number): string => {
+  const date = new Date(time);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const startOfDay = (time: number): number => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+const isNewWord = (word: WordItem) => word.lastReviewed === null;
+
+// Suspended words only come up in leech practice
+const isScheduled = (word: WordItem) => !word.suspended;
+
+const isPractisedToday = (word: WordItem, now: number) =>
+  word.lastReviewed !== null && word.lastReviewed >= startOfDay(now);
+
+// Most overdue and most missed first; one wrong answer weighs like two days overdue
+const reviewPriority = (word: WordItem, now: number) =>
+  Math.max(0, now - word.nextReview) / ONE_DAY + word.totalWrong * 2;
+
+const dueReviews = (words: WordItem[], now: number): WordItem[] =>
+  words
+    .filter(w => isScheduled(w) && !isNewWord(w) && w.nextReview <= now)
+    .sort((a, b) => reviewPriority(b, now) - reviewPriority(a, now));
+
+/**
+ * Make today's plan, or bring an existing one up to date: deleted words are
+ * dropped, and while a list is below its limit it is topped up with words
+ * that became due or were added later in the day. Words practised today
+ * outside the plan are not added. Returns the same plan when nothing changed.
+ */
+export const updateDailyPlan = (
+  plan: DailyPlan | null,
+  words: WordItem[],
+  limits: PlanLimits,
+  now: number = Date.now()
+): DailyPlan => {
+  const date = toDateKey(now);
+  const current = plan && plan.date === date ? plan : null;
+  const existingIds = new Set(words.map(w => w.id));
+  const plannedIds = new Set([...(current?.reviewIds ?? []), ...(current?.newIds ?? [])]);
+
+  const topUp = (ids: string[], candidates: WordItem[], limit: number) => [
+    ...ids,
+    ...candidates
+      .filter(w => !plannedIds.has(w.id) && !isPractisedToday(w, now))
+      .slice(0, Math.max(0, limit - ids.length))
+      .map(w => w.id),
+  ];
+
+  const reviewIds = topUp((current?.reviewIds ?? []).filter(id => existingIds.has(id)), dueReviews(words, now), limits.dailyReviewLimit);
+  const newIds = topUp(
+    (current?.newIds ?? []).filter(id => existingIds.has(id)),
+    words.filter(w => isScheduled(w) && isNewWord(w)).sort((a, b) => a.addedAt - b.addedAt),
+    limits.dailyNewLimit
+  );
+
+  const unchanged = current
+    && reviewIds.length === current.reviewIds.length && reviewIds.every((id, i) => id === current.reviewIds[i])
+    && newIds.length === current.newIds.length && newIds.every((id, i) => id === current.newIds[i]);
+  return unchanged ? current : { date, reviewIds, newIds };
+};
+
+export const getPlanProgress = (
+  plan: DailyPlan,
+  words: WordItem[],
+  limits: PlanLimits,
+  now: number = Date.now()
+): DailyPlanProgress => {
+  const byId = new Map(words.map(w => [w.id, w]));
+  const pick = (ids: string[]) => ids.map(id => byId.get(id)).filter((w): w is WordItem => !!w);
+  const reviews = pick(plan.reviewIds);
+  const fresh = pick(plan.newIds);
+  const planned = new Set([...plan.reviewIds, ...plan.newIds]);
+  const backlog = dueReviews(words, now).filter(w => !planned.has(w.id)).length;
+
+  return {
+    reviewTotal: reviews.length,
+    reviewDone: reviews.filter(w => isPractisedToday(w, now)).length,
+    newTotal: fresh.length,
+    newDone: fresh.filter(w => isPractisedToday(w, now)).length,
+    remaining: [...reviews, ...fresh].filter(w => !isPractisedToday(w, now)),
+    backlog,
+    backlogDays: Math.ceil(backlog / Math.max(1, limits.dailyReviewLimit)),
+  };
+};
+
+/**
+ * Add words to today's plan as extra reviews, e.g. pulled forward from a
+ * later day. Words already planned are left where they are.
+ */
+export const pullIntoPlan = (plan: DailyPlan, wordIds: string[]): DailyPlan => {
+  const planned = new Set([...plan.reviewIds, ...plan.newIds]);
+  const added = [...new Set(wordIds)].filter(id => !planned.has(id));
+  return added.length === 0 ? plan : { ...plan, reviewIds: [...plan.reviewIds, ...added] };
+};
+
+// ==================== Forecast ====================
+
+/**
+ * Spread words over the coming days by nextReview, starting with today.
+ * Words due after the last day and suspended words are left out.
+ */
+export const buildForecast = (words: WordItem[], days: number, now: number = Date.now()): ForecastDay[] => {
+  const today = new Date(startOfDay(now));
+  const forecast: ForecastDay[] = Array.from({ length: days }, (_, index) => {
+    // Calendar arithmetic keeps days aligned across daylight saving changes
+    const start = new Date(today.getFullYear(), today.getMonth(), today.getDate() + index).getTime();
+    return { date: toDateKey(start), start, words: [] };
+  });
+  const indexByDate = new Map(forecast.map((day, index) => [day.date, index]));
+
+  words.filter(isScheduled).forEach(word => {
+    const index = indexByDate.get(toDateKey(Math.max(word.nextReview, now)));
+    if (index !== undefined) forecast[index].words.push(word);
+  });
+  return forecast;
+};
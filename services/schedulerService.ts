@@ -0,0 +1,249 @@
+import { ReviewGrade, SchedulerAlgorithm, WordItem } from '../types';
+
+const ONE_DAY = 24 * 60 * 60 * 1000;
+// Same upper bound as word validation
+const MAX_INTERVAL = 36500;
+
+// Word fields owned by a scheduler; attempt stats are updated in scheduleReview
+type Schedule = Pick<WordItem, 'nextReview' | 'streak' | 'easeFactor' | 'interval' | 'stability' | 'difficulty'>;
+
+export interface Scheduler {
+  label: string;
+  description: string;
+  // Next schedule after one correction result
+  review: (word: WordItem, grade: ReviewGrade, now: number) => Schedule;
+  // Take over a word last scheduled by another algorithm. The due date is kept;
+  // only the state the new algorithm needs is derived from the old one.
+  adopt: (word: WordItem) => Schedule;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// A word written with hesitation still counts as correct
+export const isPassingGrade = (grade: ReviewGrade): boolean =>
+  grade === ReviewGrade.HESITANT || grade === ReviewGrade.CORRECT || grade === ReviewGrade.EASY;
+
+// A wrong answer (interval 0) is due again right away
+const dueAfter = (now: number, interval: number) => interval === 0 ? now : now + interval * ONE_DAY;
+
+const scheduleOf = ({ nextReview, streak, easeFactor, interval, stability, difficulty }: WordItem): Schedule =>
+  ({ nextReview, streak, easeFactor, interval, stability, difficulty });
+
+// ==================== Mastered / Not Mastered ====================
+
+// Minimum rest in days and ease change per grade. A longer interval keeps
+// growing by `growth` instead.
+const MASTERY_STEPS: Record<ReviewGrade, { days: number; growth: number; ease: number }> = {
+  [ReviewGrade.WRONG]: { days: 0, growth: 0, ease: -0.2 },
+  [ReviewGrade.PARTLY_WRONG]: { days: 0, growth: 0, ease: -0.1 },
+  [ReviewGrade.HESITANT]: { days: 7, growth: 1, ease: -0.05 },
+  [ReviewGrade.CORRECT]: { days: 14, growth: 1.3, ease: 0.1 },
+  [ReviewGrade.EASY]: { days: 30, growth: 1.5, ease: 0.15 },
+};
+
+// Correct = mastered: streak jumps to 10 (shown as mastered, since >3 is) and
+// the word rests for two weeks. Wrong = needs review immediately. Hesitation
+// brings it back after a week without counting it as mastered.
+const masteryScheduler: Scheduler = {
+  label: '掌握 / 未掌握',
+  description: '写对一次就算掌握，两周后再复习；写错立即复习。',
+
+  review: (word, grade, now) => {
+    const step = MASTERY_STEPS[grade];
+    const interval = step.days === 0 ? 0
+      : word.interval > step.days ? clamp(Math.round(word.interval * step.growth), 1, MAX_INTERVAL) : step.days;
+    const streak = !isPassingGrade(grade) ? 0
+      : grade === ReviewGrade.HESITANT ? word.streak + 1 : Math.max(word.streak + 1, 10);
+    return {
+      ...scheduleOf(word),
+      streak,
+      easeFactor: Math.max(1.3, word.easeFactor + step.ease),
+      interval,
+      nextReview: dueAfter(now, interval),
+    };
+  },
+
+  // Only the current interval matters to this rule
+  adopt: scheduleOf,
+};
+
+// ==================== SM-2 ====================
+
+// Response quality on SM-2's 0-5 scale
+const SM2_QUALITY: Record<ReviewGrade, number> = {
+  [ReviewGrade.WRONG]: 1,
+  [ReviewGrade.PARTLY_WRONG]: 2,
+  [ReviewGrade.HESITANT]: 3,
+  [ReviewGrade.CORRECT]: 4,
+  [ReviewGrade.EASY]: 5,
+};
+
+/**
+ * SuperMemo 2 as published by P. Wozniak: intervals of 1 and 6 days, then the
+ * previous interval times the ease factor. A failed word starts over and, as
+ * SM-2 asks, is repeated until it is written correctly, so it is due right away.
+ * The streak is the repetition number n.
+ */
+const sm2Scheduler: Scheduler = {
+  label: 'SM-2',
+  description: '经典间隔重复：1 天、6 天，之后按难度系数逐次拉长；写错从头开始。',
+
+  review: (word, grade, now) => {
+    const q = SM2_QUALITY[grade];
+    const easeFactor = Math.max(1.3, word.easeFactor + 0.1 - (5 - q) * (0.08 + (5 - q) * 0.02));
+
+    if (q < 3) {
+      return { ...scheduleOf(word), streak: 0, easeFactor, interval: 0, nextReview: now };
+    }
+
+    const interval = word.streak === 0 ? 1
+      : word.streak === 1 ? 6
+        : clamp(Math.round(word.interval * word.easeFactor), 1, MAX_INTERVAL);
+    return { ...scheduleOf(word), streak: word.streak + 1, easeFactor, interval, nextReview: dueAfter(now, interval) };
+  },
+
+  // A word that is due for repetition (interval 0) has to start over
+  adopt: (word) => ({
+    ...scheduleOf(word),
+    streak: word.interval === 0 ? 0 : word.streak,
+    easeFactor: Math.max(1.3, word.easeFactor),
+  }),
+};
+
+// ==================== FSRS ====================
+
+// Default parameters of FSRS-4.5
+const W = [0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755];
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+// Probability of still remembering a word when it comes up for review
+const DESIRED_RETENTION = 0.9;
+
+// FSRS answer ratings: Again, Hard, Good, Easy
+type Rating = 1 | 2 | 3 | 4;
+
+// FSRS has a single rating for a forgotten word
+const FSRS_RATING: Record<ReviewGrade, Rating> = {
+  [ReviewGrade.WRONG]: 1,
+  [ReviewGrade.PARTLY_WRONG]: 1,
+  [ReviewGrade.HESITANT]: 2,
+  [ReviewGrade.CORRECT]: 3,
+  [ReviewGrade.EASY]: 4,
+};
+
+const retrievability = (elapsedDays: number, stability: number) =>
+  Math.pow(1 + FACTOR * elapsedDays / stability, DECAY);
+
+const initialDifficulty = (rating: Rating) => clamp(W[4] - (rating - 3) * W[5], 1, 10);
+
+const nextDifficulty = (difficulty: number, rating: Rating) => {
+  const next = difficulty - W[6] * (rating - 3);
+  // Mean reversion towards the difficulty of a "Good" first answer
+  return clamp(W[7] * initialDifficulty(3) + (1 - W[7]) * next, 1, 10);
+};
+
+const recallStability = (difficulty: number, stability: number, r: number, rating: Rating) => {
+  const hardPenalty = rating === 2 ? W[15] : 1;
+  const easyBonus = rating === 4 ? W[16] : 1;
+  return stability * (1 + Math.exp(W[8]) * (11 - difficulty) * Math.pow(stability, -W[9])
+    * (Math.exp(W[10] * (1 - r)) - 1) * hardPenalty * easyBonus);
+};
+
+const forgetStability = (difficulty: number, stability: number, r: number) =>
+  Math.min(stability, W[11] * Math.pow(difficulty, -W[12]) * (Math.pow(stability + 1, W[13]) - 1) * Math.exp(W[14] * (1 - r)));
+
+const fsrsInterval = (stability: number) =>
+  clamp(Math.round(stability / FACTOR * (Math.pow(DESIRED_RETENTION, 1 / DECAY) - 1)), 1, MAX_INTERVAL);
+
+// Keeps easeFactor meaningful for SM-2 if the learner switches back later
+const easeFromDifficulty = (difficulty: number) => clamp(2.5 - (difficulty - 5) / 4, 1.3, 5);
+const difficultyFromEase = (easeFactor: number) => clamp(5 + (2.5 - easeFactor) * 4, 1, 10);
+
+/**
+ * Free Spaced Repetition Scheduler (FSRS-4.5 default parameters). Memory is
+ * modelled by stability (days until recall drops to 90%) and difficulty; the
+ * next review is when recall is predicted to reach DESIRED_RETENTION.
+ * A forgotten word is due right away, like in the other schedulers.
+ */
+const fsrsScheduler: Scheduler = {
+  label: 'FSRS',
+  description: '根据记忆稳定性和难度预测遗忘时间，在快要忘记时安排复习。',
+
+  review: (word, grade, now) => {
+    const rating = FSRS_RATING[grade];
+    const isCorrect = rating > 1;
+    let stability: number;
+    let difficulty: number;
+
+    if (word.stability === 0) {
+      stability = W[rating - 1];
+      difficulty = initialDifficulty(rating);
+    } else {
+      const elapsedDays = word.lastReviewed === null ? 0 : Math.max(0, (now - word.lastReviewed) / ONE_DAY);
+      const r = retrievability(elapsedDays, word.stability);
+      stability = isCorrect
+        ? recallStability(word.difficulty, word.stability, r, rating)
+        : forgetStability(word.difficulty, word.stability, r);
+      difficulty = nextDifficulty(word.difficulty, rating);
+    }
+
+    const interval = isCorrect ? fsrsInterval(stability) : 0;
+    return {
+      nextReview: dueAfter(now, interval),
+      streak: isCorrect ? word.streak + 1 : 0,
+      easeFactor: easeFromDifficulty(difficulty),
+      interval,
+      stability,
+      difficulty,
+    };
+  },
+
+  // The old interval is taken as the stability, since FSRS schedules a word
+  // about one stability ahead; a never reviewed word starts as new
+  adopt: (word) => {
+    if (word.lastReviewed === null) return { ...scheduleOf(word), stability: 0, difficulty: 0 };
+    return {
+      ...scheduleOf(word),
+      stability: word.interval > 0 ? word.interval : W[0],
+      difficulty: difficultyFromEase(word.easeFactor),
+    };
+  },
+};
+
+export const SCHEDULERS: Record<SchedulerAlgorithm, Scheduler> = {
+  [SchedulerAlgorithm.MASTERY]: masteryScheduler,
+  [SchedulerAlgorithm.SM2]: sm2Scheduler,
+  [SchedulerAlgorithm.FSRS]: fsrsScheduler,
+};
+
+/**
+ * Move a word to another algorithm without reviewing it. Words already on
+ * that algorithm are returned as they are.
+ */
+export const switchAlgorithm = (word: WordItem, algorithm: SchedulerAlgorithm, now: number = Date.now()): WordItem =>
+  word.algorithm === algorithm
+    ? word
+    : { ...word, ...SCHEDULERS[algorithm].adopt(word), algorithm, updatedAt: now };
+
+/**
+ * Apply one correction result with the given algorithm, also updating the
+ * attempt stats used by smart review.
+ */
+export const scheduleReview = (
+  word: WordItem,
+  grade: ReviewGrade,
+  algorithm: SchedulerAlgorithm,
+  now: number = Date.now()
+): WordItem => {
+  const current = switchAlgorithm(word, algorithm, now);
+  const isCorrect = isPassingGrade(grade);
+  return {
+    ...current,
+    ...SCHEDULERS[algorithm].review(current, grade, now),
+    lastReviewed: now,
+    totalAttempts: current.totalAttempts + 1,
+    totalWrong: current.totalWrong + (isCorrect ? 0 : 1),
+    lastWrongAt: isCorrect ? current.lastWrongAt : now,
+    updatedAt: now,
+  };
+};
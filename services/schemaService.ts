@@ -0,0 +1,526 @@
+import { v4 as uuidv4 } from 'uuid';
+import { WordItem, DictationSettings, DEFAULT_SETTINGS, DailyPlan, ActiveSession, SessionSource, PlaybackOrder, SchedulerAlgorithm, ReviewGrade, LearnerProfile, ReviewEvent, SyncChanges, WordTombstone } from '../types';
+
+/**
+ * Current shape of stored data and backup files.
+ * Bump this and append a migration below whenever WordItem or the backup layout changes.
+ *
+ * History:
+ * 1 - Original format. Stats fields (totalAttempts, totalWrong, lastWrongAt) and groupTitle optional.
+ * 2 - All WordItem fields required; stats initialized for every word.
+ * 3 - Backups group words and settings by learner profile.
+ * 4 - Each profile in a backup carries its review event log.
+ * 5 - Every WordItem records when it was last changed (updatedAt).
+ * 6 - Every WordItem records its scheduling algorithm and FSRS memory state.
+ * 7 - Words can be suspended from regular reviews.
+ */
+export const SCHEMA_VERSION = 7;
+
+const DEFAULT_GROUP_TITLE = '默认词库';
+
+/**
+ * Data of one learner inside a backup file
+ */
+export interface ProfileBackup {
+  profile: LearnerProfile;
+  words: WordItem[];
+  settings: Partial<DictationSettings>;
+  reviewLog: ReviewEvent[];
+}
+
+/**
+ * Backup file written by "导出数据"
+ */
+export interface BackupData {
+  version: number;
+  exportDate: string;
+  profiles: ProfileBackup[];
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+interface Migration {
+  version: number; // Version produced by this migration
+  description: string;
+  // Upgrade one word record, both in storage and inside backup files
+  migrateWord?: (word: UnknownRecord) => UnknownRecord;
+  // Upgrade the layout of a backup file
+  migrateBackup?: (backup: UnknownRecord) => UnknownRecord;
+}
+
+// ==================== Migrations ====================
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Ordered by version; each step upgrades data from (version - 1) to version
+const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Initialize stats fields and group title on every word',
+    migrateWord: (word) => ({
+      ...word,
+      groupTitle: word.groupTitle || DEFAULT_GROUP_TITLE,
+      totalAttempts: word.totalAttempts ?? 0,
+      totalWrong: word.totalWrong ?? 0,
+      lastWrongAt: word.lastWrongAt ?? null,
+    }),
+  },
+  {
+    version: 3,
+    description: 'Group backup data by learner profile',
+    migrateBackup: ({ words, settings, ...rest }) => ({
+      ...rest,
+      // No profile info in older files: imported into the current profile
+      profiles: [{ profile: null, words, settings }],
+    }),
+  },
+  {
+    version: 4,
+    description: 'Add an empty review log to every profile',
+    migrateBackup: (backup) => ({
+      ...backup,
+      profiles: Array.isArray(backup.profiles)
+        ? backup.profiles.map(p => isRecord(p) ? { ...p, reviewLog: [] } : p)
+        : backup.profiles,
+    }),
+  },
+  {
+    version: 5,
+    description: 'Record when each word was last changed',
+    migrateWord: (word) => ({
+      ...word,
+      updatedAt: word.updatedAt ?? word.lastReviewed ?? word.addedAt,
+    }),
+  },
+  {
+    version: 6,
+    description: 'Record the scheduling algorithm of each word',
+    migrateWord: (word) => ({
+      ...word,
+      // Everything so far was scheduled by the original mastered / not mastered rule
+      algorithm: word.algorithm ?? SchedulerAlgorithm.MASTERY,
+      stability: word.stability ?? 0,
+      difficulty: word.difficulty ?? 0,
+    }),
+  },
+  {
+    version: 7,
+    description: 'Add the suspended flag to every word',
+    migrateWord: (word) => ({ ...word, suspended: word.suspended ?? false }),
+  },
+];
+
+const pendingMigrations = (version: unknown): Migration[] => {
+  const fromVersion = typeof version === 'number' && Number.isInteger(version) && version > 0 ? version : 1;
+
+  if (fromVersion > SCHEMA_VERSION) {
+    throw new Error(`数据版本 (v${fromVersion}) 比当前应用 (v${SCHEMA_VERSION}) 更新，请先升级应用`);
+  }
+  return MIGRATIONS.filter(m => m.version > fromVersion);
+};
+
+const applyWordMigration = (migration: Migration, words: unknown[]): unknown[] => {
+  const { migrateWord } = migration;
+  if (!migrateWord) return words;
+  return words.map(word => isRecord(word) ? migrateWord(word) : word);
+};
+
+/**
+ * Upgrade stored word records from `version` to SCHEMA_VERSION by running the
+ * pending migrations in order. Data without a version is treated as version 1.
+ */
+export const migrateWords = (version: number | undefined, words: unknown[]): unknown[] => {
+  return pendingMigrations(version).reduce((current, m) => applyWordMigration(m, current), words);
+};
+
+/**
+ * Upgrade a parsed backup file to SCHEMA_VERSION. Word migrations are applied
+ * wherever the words live in the layout of that version.
+ */
+export const migrateBackup = (data: UnknownRecord): UnknownRecord => {
+  return pendingMigrations(data.version).reduce((current, m) => {
+    let next = m.migrateBackup ? m.migrateBackup(current) : current;
+
+    if (m.migrateWord) {
+      next = Array.isArray(next.profiles)
+        ? {
+          ...next,
+          profiles: next.profiles.map(p => isRecord(p) && Array.isArray(p.words) ? { ...p, words: applyWordMigration(m, p.words) } : p),
+        }
+        : { ...next, words: Array.isArray(next.words) ? applyWordMigration(m, next.words) : next.words };
+    }
+    return { ...next, version: m.version };
+  }, data);
+};
+
+// ==================== Validation ====================
+
+// Plausible range for millisecond timestamps; also catches second-based values
+const MIN_TIMESTAMP = Date.UTC(2000, 0, 1);
+const MAX_TIMESTAMP = Date.UTC(2100, 0, 1);
+// Allow some clock skew between devices before treating a past event as "in the future"
+const CLOCK_SKEW = 24 * 60 * 60 * 1000;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isCount = (value: unknown): value is number =>
+  isFiniteNumber(value) && Number.isInteger(value) && value >= 0;
+
+const isTimestamp = (value: unknown): value is number =>
+  isFiniteNumber(value) && value >= MIN_TIMESTAMP && value < MAX_TIMESTAMP;
+
+const describeValue = (value: unknown): string => {
+  if (value === undefined) return '缺失';
+  const json = JSON.stringify(value);
+  return json.length > 24 ? `${json.slice(0, 24)}…` : json;
+};
+
+export interface WordValidationResult {
+  word: WordItem | null; // null when the record cannot be repaired
+  repaired: boolean;
+  issues: string[]; // Human readable reason per repaired field, or why it was rejected
+}
+
+/**
+ * Check a single record against the current WordItem shape.
+ * Missing or invalid fields are repaired with safe defaults; records without
+ * usable text are rejected since there is nothing to dictate.
+ */
+export const validateWord = (raw: unknown, now: number = Date.now()): WordValidationResult => {
+  if (!isRecord(raw)) {
+    return { word: null, repaired: false, issues: ['不是有效的词语记录'] };
+  }
+  if (typeof raw.text !== 'string' || raw.text.trim() === '') {
+    return { word: null, repaired: false, issues: [`text: 词语内容为空 (${describeValue(raw.text)})`] };
+  }
+
+  const issues: string[] = [];
+  const pick = <T>(field: string, valid: boolean, fallback: T): T => {
+    if (valid) return raw[field] as T;
+    issues.push(`${field}: 无效值 ${describeValue(raw[field])}，已重置`);
+    return fallback;
+  };
+
+  const isPast = (value: unknown) => isTimestamp(value) && value <= now + CLOCK_SKEW;
+
+  const addedAt = pick('addedAt', isPast(raw.addedAt), now);
+  const lastReviewed = pick<number | null>('lastReviewed', raw.lastReviewed === null || isPast(raw.lastReviewed), null);
+  const totalAttempts = pick('totalAttempts', isCount(raw.totalAttempts), 0);
+  const totalWrong = pick('totalWrong', isCount(raw.totalWrong), 0);
+
+  const word: WordItem = {
+    id: pick('id', typeof raw.id === 'string' && raw.id.trim() !== '', uuidv4()),
+    text: raw.text.trim(),
+    groupTitle: pick('groupTitle', typeof raw.groupTitle === 'string' && raw.groupTitle.trim() !== '', DEFAULT_GROUP_TITLE),
+    addedAt,
+    lastReviewed,
+    nextReview: pick('nextReview', isTimestamp(raw.nextReview), now),
+    streak: pick('streak', isCount(raw.streak), 0),
+    easeFactor: pick('easeFactor', isFiniteNumber(raw.easeFactor) && raw.easeFactor >= 1.3 && raw.easeFactor <= 5, 2.5),
+    interval: pick('interval', isFiniteNumber(raw.interval) && raw.interval >= 0 && raw.interval <= 36500, 0),
+    algorithm: pick('algorithm', Object.values(SchedulerAlgorithm).includes(raw.algorithm as SchedulerAlgorithm), SchedulerAlgorithm.MASTERY),
+    stability: pick('stability', isFiniteNumber(raw.stability) && raw.stability >= 0 && raw.stability <= 36500, 0),
+    difficulty: pick('difficulty', raw.difficulty === 0 || (isFiniteNumber(raw.difficulty) && raw.difficulty >= 1 && raw.difficulty <= 10), 0),
+    suspended: pick('suspended', typeof raw.suspended === 'boolean', false),
+    totalAttempts,
+    totalWrong,
+    lastWrongAt: pick('lastWrongAt', raw.lastWrongAt === null || isPast(raw.lastWrongAt), null),
+    updatedAt: pick('updatedAt', isTimestamp(raw.updatedAt), Math.max(addedAt, lastReviewed ?? 0)),
+  };
+
+  if (raw.text !== word.text) {
+    issues.push('text: 已去除首尾空格');
+  }
+  // Every wrong answer is also an attempt
+  if (word.totalWrong > word.totalAttempts) {
+    issues.push(`totalWrong (${word.totalWrong}) 大于 totalAttempts (${word.totalAttempts})，已修正`);
+    word.totalAttempts = word.totalWrong;
+  }
+
+  const repaired = issues.length > 0;
+
+  // Hand back the original record when it was already valid, so callers can
+  // tell untouched records apart by identity
+  return repaired ? { word, repaired, issues } : { word: raw as unknown as WordItem, repaired, issues };
+};
+
+export interface RecordIssue {
+  index: number; // Position in the source list
+  text: string;  // Word text if available, for display
+  action: 'repaired' | 'rejected';
+  issues: string[];
+}
+
+export interface WordsValidationResult {
+  words: WordItem[];
+  repairedCount: number;
+  rejectedCount: number;
+  report: RecordIssue[];
+}
+
+/**
+ * Validate a list of records. Duplicate ids are given a fresh id so later
+ * lookups by id stay unambiguous.
+ */
+export const validateWords = (rawWords: unknown[], now: number = Date.now()): WordsValidationResult => {
+  const seenIds = new Set<string>();
+  const words: WordItem[] = [];
+  const report: RecordIssue[] = [];
+  let repairedCount = 0;
+  let rejectedCount = 0;
+
+  rawWords.forEach((raw, index) => {
+    const { word, issues } = validateWord(raw, now);
+    const text = isRecord(raw) && typeof raw.text === 'string' ? raw.text : '';
+
+    if (!word) {
+      rejectedCount++;
+      report.push({ index, text, action: 'rejected', issues });
+      return;
+    }
+
+    let unique = word;
+    if (seenIds.has(word.id)) {
+      unique = { ...word, id: uuidv4() };
+      issues.push(`id: 与其他记录重复 (${describeValue(word.id)})，已重新生成`);
+    }
+    seenIds.add(unique.id);
+
+    if (issues.length > 0) {
+      repairedCount++;
+      report.push({ index, text, action: 'repaired', issues });
+    }
+    words.push(unique);
+  });
+
+  return { words, repairedCount, rejectedCount, report };
+};
+
+// Local calendar day, as used for exam dates
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface SettingsValidationResult {
+  settings: Partial<DictationSettings>;
+  issues: string[];
+}
+
+/**
+ * Check settings field by field. Out-of-range numbers are clamped into the
+ * range the settings page allows; values of the wrong type are dropped so the
+ * current/default value is used instead. Unknown keys are ignored.
+ */
+export const validateSettings = (raw: unknown): SettingsValidationResult => {
+  const issues: string[] = [];
+  const settings: Partial<DictationSettings> = {};
+  if (!isRecord(raw)) return { settings, issues: raw === undefined ? [] : ['设置不是有效的对象，已忽略'] };
+
+  const numberField = (field: keyof DictationSettings, min: number, max: number, integer = false) => {
+    const value = raw[field];
+    if (value === undefined) return;
+    if (!isFiniteNumber(value)) {
+      issues.push(`${field}: 无效值 ${describeValue(value)}，已忽略`);
+      return;
+    }
+    const safe = clamp(integer ? Math.round(value) : value, min, max);
+    if (safe !== value) issues.push(`${field}: ${value} 超出范围 ${min}-${max}，已调整为 ${safe}`);
+    (settings as Record<string, number>)[field] = safe;
+  };
+
+  if (raw.voice !== undefined) {
+    if (typeof raw.voice === 'string') settings.voice = raw.voice;
+    else issues.push(`voice: 无效值 ${describeValue(raw.voice)}，已忽略`);
+  }
+  if (raw.order !== undefined) {
+    if (Object.values(PlaybackOrder).includes(raw.order as PlaybackOrder)) settings.order = raw.order as PlaybackOrder;
+    else issues.push(`order: 未知的播放顺序 ${describeValue(raw.order)}，已忽略`);
+  }
+  if (raw.scheduler !== undefined) {
+    if (Object.values(SchedulerAlgorithm).includes(raw.scheduler as SchedulerAlgorithm)) settings.scheduler = raw.scheduler as SchedulerAlgorithm;
+    else issues.push(`scheduler: 未知的复习算法 ${describeValue(raw.scheduler)}，已忽略`);
+  }
+  numberField('intervalSeconds', 1, 60);
+  numberField('perCharInterval', 1, 10);
+  numberField('autoRepeat', 1, 3, true);
+  numberField('maxReviewBatchSize', 5, 50, true);
+  numberField('trashRetentionDays', 1, 90, true);
+  numberField('snapshotCount', 3, 30, true);
+  numberField('silenceThreshold', 200, 2000, true);
+  numberField('dailyReviewLimit', 5, 200, true);
+  numberField('dailyNewLimit', 0, 50, true);
+  numberField('leechThreshold', 2, 10, true);
+  numberField('leechWrongRate', 10, 100, true);
+  if (raw.suspendLeeches !== undefined) {
+    if (typeof raw.suspendLeeches === 'boolean') settings.suspendLeeches = raw.suspendLeeches;
+    else issues.push(`suspendLeeches: 无效值 ${describeValue(raw.suspendLeeches)}，已忽略`);
+  }
+  numberField('examReviewCount', 1, 10, true);
+  numberField('replayExtension', 0, 10, true);
+  if (raw.replaysLowerGrade !== undefined) {
+    if (typeof raw.replaysLowerGrade === 'boolean') settings.replaysLowerGrade = raw.replaysLowerGrade;
+    else issues.push(`replaysLowerGrade: 无效值 ${describeValue(raw.replaysLowerGrade)}，已忽略`);
+  }
+  if (raw.examDates !== undefined) {
+    if (isRecord(raw.examDates)) {
+      const examDates: Record<string, string> = {};
+      Object.entries(raw.examDates).forEach(([title, date]) => {
+        if (typeof date === 'string' && DATE_KEY_PATTERN.test(date)) examDates[title] = date;
+        else issues.push(`examDates: "${title}" 的考试日期 ${describeValue(date)} 无效，已忽略`);
+      });
+      settings.examDates = examDates;
+    } else {
+      issues.push(`examDates: 无效值 ${describeValue(raw.examDates)}，已忽略`);
+    }
+  }
+
+  return { settings, issues };
+};
+
+// ==================== Daily Plan ====================
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// A broken plan is replaced by a new one, so it is not repaired
+export const validateDailyPlan = (raw: unknown): DailyPlan | null =>
+  isRecord(raw) && typeof raw.date === 'string' && isStringList(raw.reviewIds) && isStringList(raw.newIds)
+    ? { date: raw.date, reviewIds: raw.reviewIds, newIds: raw.newIds }
+    : null;
+
+// ==================== Active Session ====================
+
+// Like the daily plan, a broken session is dropped rather than repaired
+export const validateActiveSession = (raw: unknown): ActiveSession | null => {
+  if (
+    !isRecord(raw) ||
+    typeof raw.id !== 'string' ||
+    !Object.values(SessionSource).includes(raw.source as SessionSource) ||
+    (raw.groupTitle !== null && typeof raw.groupTitle !== 'string') ||
+    !isTimestamp(raw.startedAt) ||
+    (raw.step !== 'DICTATION' && raw.step !== 'CORRECTION') ||
+    !isStringList(raw.wordIds) ||
+    !isCount(raw.index) ||
+    // Sessions saved before jumps were possible count the words read from the start
+    !(isStringList(raw.played) || isCount(raw.reached)) ||
+    (raw.replays !== undefined && (!isRecord(raw.replays) || !Object.values(raw.replays).every(isCount))) ||
+    (raw.speechRate !== undefined && !isFiniteNumber(raw.speechRate)) ||
+    !isTimestamp(raw.savedAt)
+  ) {
+    return null;
+  }
+  return {
+    id: raw.id,
+    source: raw.source as SessionSource,
+    groupTitle: raw.groupTitle,
+    startedAt: raw.startedAt,
+    step: raw.step,
+    wordIds: raw.wordIds,
+    index: raw.index,
+    played: isStringList(raw.played) ? raw.played : raw.wordIds.slice(0, raw.reached as number),
+    replays: (raw.replays ?? {}) as Record<string, number>,
+    settings: { ...DEFAULT_SETTINGS, ...validateSettings(raw.settings).settings },
+    ...(raw.speechRate !== undefined && { speechRate: raw.speechRate }),
+    savedAt: raw.savedAt,
+  };
+};
+
+// ==================== Review Log ====================
+
+const isInterval = (value: unknown): value is number => isFiniteNumber(value) && value >= 0;
+
+/**
+ * Keep the well-formed review events. Events are history, so broken ones are
+ * dropped rather than repaired.
+ */
+export const validateReviewEvents = (raw: unknown): ReviewEvent[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter((event): event is ReviewEvent =>
+    isRecord(event) &&
+    typeof event.id === 'string' && event.id !== '' &&
+    typeof event.wordId === 'string' && event.wordId !== '' &&
+    isTimestamp(event.timestamp) &&
+    typeof event.correct === 'boolean' &&
+    (event.grade === undefined || Object.values(ReviewGrade).includes(event.grade as ReviewGrade)) &&
+    (event.wrongChars === undefined || isStringList(event.wrongChars)) &&
+    typeof event.sessionId === 'string' &&
+    isInterval(event.previousInterval) &&
+    isInterval(event.newInterval)
+  );
+};
+
+// ==================== Sync ====================
+
+/**
+ * Validate changes received from a sync endpoint. Anything malformed is left
+ * out, so a broken server response can never damage local data.
+ */
+export const validateSyncChanges = (raw: unknown, now: number = Date.now()): SyncChanges => {
+  if (!isRecord(raw)) return { words: [], deletedWords: [], reviewEvents: [] };
+  const words = (Array.isArray(raw.words) ? raw.words : [])
+    .map(entry => validateWord(entry, now).word)
+    .filter((word): word is WordItem => word !== null);
+  const deletedWords = (Array.isArray(raw.deletedWords) ? raw.deletedWords : [])
+    .filter((entry): entry is WordTombstone =>
+      isRecord(entry) && typeof entry.id === 'string' && entry.id !== '' && isTimestamp(entry.deletedAt)
+    )
+    .map(({ id, deletedAt }) => ({ id, deletedAt }));
+  return { words, deletedWords, reviewEvents: validateReviewEvents(raw.reviewEvents) };
+};
+
+// ==================== Backups ====================
+
+export const validateProfile = (raw: unknown): LearnerProfile | null => {
+  if (!isRecord(raw)) return null;
+  return {
+    id: typeof raw.id === 'string' && raw.id.trim() !== '' ? raw.id : uuidv4(),
+    name: typeof raw.name === 'string' && raw.name.trim() !== '' ? raw.name.trim().slice(0, 20) : '未命名',
+    avatar: typeof raw.avatar === 'string' && raw.avatar !== '' ? raw.avatar : null,
+    createdAt: isTimestamp(raw.createdAt) ? raw.createdAt : Date.now(),
+  };
+};
+
+export interface ParsedProfileBackup extends WordsValidationResult {
+  profile: LearnerProfile | null; // null for files exported before profiles existed
+  settings: Partial<DictationSettings> | null;
+  settingsIssues: string[];
+  reviewLog: ReviewEvent[];
+}
+
+/**
+ * Parse the contents of a backup file, upgrade it to the current schema and
+ * validate every profile, word and setting in it.
+ * Throws a user-facing Error when the file is unusable.
+ */
+export const parseBackup = (json: string): ParsedProfileBackup[] => {
+  const data = JSON.parse(json);
+
+  if (!isRecord(data) || (!Array.isArray(data.words) && !Array.isArray(data.profiles))) {
+    throw new Error('文件格式不正确');
+  }
+
+  const migrated = migrateBackup(data);
+  const profiles = Array.isArray(migrated.profiles) ? migrated.profiles.filter(isRecord) : [];
+  if (profiles.length === 0) {
+    throw new Error('文件中没有任何数据');
+  }
+
+  return profiles.map(entry => {
+    const { settings, issues } = validateSettings(entry.settings);
+    return {
+      ...validateWords(Array.isArray(entry.words) ? entry.words : []),
+      profile: validateProfile(entry.profile),
+      settings: isRecord(entry.settings) ? settings : null,
+      settingsIssues: issues,
+      reviewLog: validateReviewEvents(entry.reviewLog),
+    };
+  });
+};
+
+export const createBackup = (profiles: ProfileBackup[]): BackupData => ({
+  version: SCHEMA_VERSION,
+  exportDate: new Date().toISOString(),
+  profiles,
+});
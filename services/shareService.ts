@@ -0,0 +1,83 @@
+/**
+ * Share a word group as a link. The group travels in the URL fragment, which
+ * browsers never send to a server, so opening the link only loads the app.
+ * Format: #share=<z|p><base64url>, where "z" marks deflate-compressed JSON and
+ * "p" plain JSON.
+ */
+
+const SHARE_PARAM = 'share';
+const SHARE_VERSION = 1;
+
+export interface SharedGroup {
+  title: string;
+  words: string[];
+}
+
+// Keep links short enough for QR codes and chat apps
+export const MAX_SHARED_WORDS = 200;
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array<ArrayBuffer> => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+};
+
+const transform = async (bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream): Promise<Uint8Array<ArrayBuffer>> => {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+};
+
+/**
+ * Build the share link for a group. Compression is used where the browser
+ * supports it and it makes the link shorter.
+ */
+export const createShareLink = async (group: SharedGroup, baseUrl: string): Promise<string> => {
+  const json = JSON.stringify({ v: SHARE_VERSION, t: group.title, w: group.words.slice(0, MAX_SHARED_WORDS) });
+  const plain = new TextEncoder().encode(json);
+
+  let payload = `p${toBase64Url(plain)}`;
+  if (typeof CompressionStream !== 'undefined') {
+    const compressed = `z${toBase64Url(await transform(plain, new CompressionStream('deflate-raw')))}`;
+    if (compressed.length < payload.length) payload = compressed;
+  }
+  return `${baseUrl.split('#')[0]}#${SHARE_PARAM}=${payload}`;
+};
+
+export const isShareHash = (hash: string): boolean => hash.startsWith(`#${SHARE_PARAM}=`);
+
+/**
+ * Read a shared group from a location hash. Returns null when the hash is not
+ * a share link, and throws a user-facing Error when the link is damaged.
+ */
+export const parseShareHash = async (hash: string): Promise<SharedGroup | null> => {
+  if (!isShareHash(hash)) return null;
+  const payload = hash.slice(`#${SHARE_PARAM}=`.length);
+
+  let data: unknown;
+  try {
+    const bytes = fromBase64Url(payload.slice(1));
+    const json = payload[0] === 'z'
+      ? await transform(bytes, new DecompressionStream('deflate-raw'))
+      : bytes;
+    data = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new Error('分享链接不完整或已损坏，请让对方重新分享');
+  }
+
+  const { t: title, w: words } = (data ?? {}) as { t?: unknown; w?: unknown };
+  if (typeof title !== 'string' || !Array.isArray(words)) {
+    throw new Error('分享链接不完整或已损坏，请让对方重新分享');
+  }
+  return {
+    title: title.trim() || '分享的词库',
+    words: words
+      .filter((word): word is string => typeof word === 'string' && word.trim() !== '')
+      .map(word => word.trim())
+      .slice(0, MAX_SHARED_WORDS),
+  };
+};
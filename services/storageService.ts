@@ -1,83 +1,1007 @@
-import { WordItem, DictationSettings, DEFAULT_SETTINGS } from '../types';
+import { WordItem, DictationSettings, DEFAULT_SETTINGS, DailyPlan, ActiveSession, LearnerProfile, ReviewEvent, SessionRecord, TrashEntry, Snapshot, SyncConfig, SyncChanges } from '../types';
+import { SCHEMA_VERSION, migrateWords, validateWord, validateSettings, validateDailyPlan, validateActiveSession } from './schemaService';
+import { mergeConcurrentEdits, isNewerWord, hasSyncChanges, SyncAdapter } from './syncService';
+import { findTargetProfile } from './importService';
 
-const WORDS_KEY = 'dictation_words';
-const SETTINGS_KEY = 'dictation_settings';
+// IndexedDB layout
+const DB_NAME = 'dictation_assistant';
+const DB_VERSION = 6;
+const PROFILES_STORE = 'profiles';  // LearnerProfile records, keyed by id
+const WORDS_STORE = 'profileWords'; // One record per WordItem, keyed by [profileId, id]
+const EVENTS_STORE = 'reviewEvents'; // Append-only ReviewEvent log, keyed by [profileId, id]
+const SESSIONS_STORE = 'sessions';   // Completed SessionRecords, keyed by [profileId, id]
+const TRASH_STORE = 'trash';         // Recycle bin TrashEntries, keyed by [profileId, id]
+const SNAPSHOTS_STORE = 'snapshots'; // Rolling Snapshots of words and settings, keyed by [profileId, id]
+const META_STORE = 'meta';          // Key-value records (per-profile settings, active profile, ...)
+const V1_WORDS_STORE = 'words';     // DB v1: all words in one store, without a profile
 
-const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const META_SCHEMA_VERSION = 'schemaVersion';
+const META_ACTIVE_PROFILE = 'activeProfileId';
+const META_SYNC_CONFIG = 'syncConfig';
+const settingsKey = (profileId: string) => `settings:${profileId}`;
+const syncStateKey = (profileId: string) => `sync:${profileId}`;
+const dailyPlanKey = (profileId: string) => `plan:${profileId}`;
+const activeSessionKey = (profileId: string) => `session:${profileId}`;
+// DB v1 meta keys, moved onto the first profile
+const V1_META_SETTINGS = 'settings';
+const V1_META_AVATAR = 'avatar';
 
-export const saveWords = (words: WordItem[]) => {
-  localStorage.setItem(WORDS_KEY, JSON.stringify(words));
+// Data that existed before profiles becomes this profile
+export const DEFAULT_PROFILE_ID = 'default';
+const DEFAULT_PROFILE_NAME = '宝贝';
+
+// Legacy localStorage keys (before the IndexedDB backend)
+const LEGACY_WORDS_KEY = 'dictation_words';
+const LEGACY_SETTINGS_KEY = 'dictation_settings';
+const LEGACY_AVATAR_KEY = 'userAvatar';
+
+type StoredWord = WordItem & { profileId: string };
+type StoredEvent = ReviewEvent & { profileId: string };
+type StoredSession = SessionRecord & { profileId: string };
+type StoredTrashEntry = TrashEntry & { profileId: string; schemaVersion?: number };
+type StoredSnapshot = Snapshot & { profileId: string; schemaVersion?: number };
+
+// ==================== IndexedDB helpers ====================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
 };
 
-export const loadWords = (): WordItem[] => {
-  const data = localStorage.getItem(WORDS_KEY);
-  return data ? JSON.parse(data) : [];
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
 };
 
-export const saveSettings = (settings: DictationSettings) => {
-  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+/**
+ * Convert low-level storage failures into user-facing messages.
+ * QuotaExceededError is the one users can actually act on (free up space / export).
+ */
+const toStorageError = (err: unknown): Error => {
+  const name = (err as DOMException | undefined)?.name;
+  if (name === 'QuotaExceededError') {
+    return new Error('存储空间已满，最近的修改未能保存。请导出备份后删除不需要的词库或头像。');
+  }
+  if (name === 'InvalidStateError' || name === 'UnknownError') {
+    return new Error('浏览器存储不可用（可能处于无痕模式），数据无法保存。');
+  }
+  const message = (err as Error | undefined)?.message;
+  return new Error(`数据保存失败${message ? `：${message}` : ''}`);
 };
 
-export const loadSettings = (): DictationSettings => {
-  const data = localStorage.getItem(SETTINGS_KEY);
-  if (!data) return DEFAULT_SETTINGS;
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error('您的浏览器不支持 IndexedDB，数据无法保存。'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const tx = request.transaction!;
+
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+      if (!db.objectStoreNames.contains(PROFILES_STORE)) {
+        db.createObjectStore(PROFILES_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(WORDS_STORE)) {
+        const store = db.createObjectStore(WORDS_STORE, { keyPath: ['profileId', 'id'] });
+        store.createIndex('profileId', 'profileId');
+      }
+      // Stores keyed by [profileId, id] with a lookup by profile
+      [EVENTS_STORE, SESSIONS_STORE, TRASH_STORE, SNAPSHOTS_STORE].forEach(name => {
+        if (!db.objectStoreNames.contains(name)) {
+          const store = db.createObjectStore(name, { keyPath: ['profileId', 'id'] });
+          store.createIndex('profileId', 'profileId');
+        }
+      });
+
+      // v1 -> v2: existing words belong to the first profile
+      if (db.objectStoreNames.contains(V1_WORDS_STORE)) {
+        const target = tx.objectStore(WORDS_STORE);
+        const cursorRequest = tx.objectStore(V1_WORDS_STORE).openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (cursor) {
+            target.put({ ...cursor.value, profileId: DEFAULT_PROFILE_ID });
+            cursor.continue();
+          } else {
+            db.deleteObjectStore(V1_WORDS_STORE);
+          }
+        };
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema: close so it is not blocked
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(toStorageError(request.error));
+  });
+
+  // Allow a later retry if opening failed
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+};
+
+/**
+ * Run a readwrite transaction and wait for it to commit,
+ * reporting failures as user-facing errors.
+ */
+const writeTransaction = async (
+  storeNames: string[],
+  fill: (tx: IDBTransaction) => void
+): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, 'readwrite');
+  fill(tx);
+  try {
+    await transactionDone(tx);
+  } catch (err) {
+    throw toStorageError(err);
+  }
+};
+
+const getMeta = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readonly');
+  return requestToPromise<T | undefined>(tx.objectStore(META_STORE).get(key));
+};
+
+const setMeta = (key: string, value: unknown): Promise<void> => {
+  return writeTransaction([META_STORE], tx => {
+    tx.objectStore(META_STORE).put(value, key);
+  });
+};
+
+// ==================== Change notifications ====================
+
+/**
+ * Sent to the other open tabs after data was written, so they can reload it
+ * instead of overwriting it with their stale copy.
+ */
+export type StorageChange =
+  | { kind: 'words'; profileId: string; changedIds: string[]; deletedIds: string[] }
+  | { kind: 'reviewEvents' | 'sessions' | 'trash' | 'settings' | 'dailyPlan'; profileId: string }
+  | { kind: 'profiles' }
+  | { kind: 'syncConfig' };
+
+const CHANNEL_NAME = 'dictation_assistant';
+// localStorage key used to signal changes where BroadcastChannel is missing (older Safari)
+const CHANGE_KEY = 'dictation_assistant_change';
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+const notifyChange = (change: StorageChange) => {
+  try {
+    if (channel) {
+      channel.postMessage(change);
+    } else {
+      // The timestamp makes every value unique, so the storage event always fires
+      localStorage.setItem(CHANGE_KEY, JSON.stringify({ change, at: Date.now() }));
+    }
+  } catch (err) {
+    console.warn('Failed to notify other tabs:', err);
+  }
+};
+
+/**
+ * Listen for changes written by other tabs. Returns the unsubscribe function.
+ */
+export const subscribeToChanges = (listener: (change: StorageChange) => void): (() => void) => {
+  if (channel) {
+    const onMessage = (event: MessageEvent<StorageChange>) => listener(event.data);
+    channel.addEventListener('message', onMessage);
+    return () => channel.removeEventListener('message', onMessage);
+  }
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== CHANGE_KEY || !event.newValue) return;
+    try {
+      listener(JSON.parse(event.newValue).change);
+    } catch {
+      // Ignore malformed values
+    }
+  };
+  window.addEventListener('storage', onStorage);
+  return () => window.removeEventListener('storage', onStorage);
+};
+
+// ==================== Profiles ====================
+
+export const loadProfiles = async (): Promise<LearnerProfile[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(PROFILES_STORE, 'readonly');
+  const profiles = await requestToPromise<LearnerProfile[]>(tx.objectStore(PROFILES_STORE).getAll());
+  return profiles.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveProfile = async (profile: LearnerProfile): Promise<void> => {
+  await writeTransaction([PROFILES_STORE], tx => {
+    tx.objectStore(PROFILES_STORE).put(profile);
+  });
+  notifyChange({ kind: 'profiles' });
+};
+
+/**
+ * Remove a profile together with all of its data
+ */
+export const deleteProfile = async (profileId: string): Promise<void> => {
+  // Let queued word saves finish first so they cannot bring the words back
+  await writeQueue;
+  await writeTransaction([PROFILES_STORE, WORDS_STORE, EVENTS_STORE, SESSIONS_STORE, TRASH_STORE, SNAPSHOTS_STORE, META_STORE], tx => {
+    tx.objectStore(PROFILES_STORE).delete(profileId);
+    // Arrays sort after strings, so this range covers every [profileId, id] key
+    const profileRange = IDBKeyRange.bound([profileId], [profileId, []]);
+    tx.objectStore(WORDS_STORE).delete(profileRange);
+    tx.objectStore(EVENTS_STORE).delete(profileRange);
+    tx.objectStore(SESSIONS_STORE).delete(profileRange);
+    tx.objectStore(TRASH_STORE).delete(profileRange);
+    tx.objectStore(SNAPSHOTS_STORE).delete(profileRange);
+    tx.objectStore(META_STORE).delete(settingsKey(profileId));
+    tx.objectStore(META_STORE).delete(syncStateKey(profileId));
+    tx.objectStore(META_STORE).delete(dailyPlanKey(profileId));
+    tx.objectStore(META_STORE).delete(activeSessionKey(profileId));
+  });
+  persistedWords.delete(profileId);
+  notifyChange({ kind: 'profiles' });
+};
+
+/**
+ * The profile shown on start: the last one used, or the oldest one
+ */
+export const loadActiveProfileId = async (): Promise<string> => {
+  const [activeId, profiles] = await Promise.all([
+    getMeta<string>(META_ACTIVE_PROFILE),
+    loadProfiles(),
+  ]);
+  if (activeId && profiles.some(p => p.id === activeId)) return activeId;
+  return profiles[0]?.id ?? DEFAULT_PROFILE_ID;
+};
+
+export const saveActiveProfileId = (profileId: string): Promise<void> => setMeta(META_ACTIVE_PROFILE, profileId);
+
+/**
+ * Make sure at least one profile exists. On the first start after profiles
+ * were introduced, the settings and avatar of the single user move onto it.
+ */
+const ensureDefaultProfile = async (db: IDBDatabase): Promise<void> => {
+  const readTx = db.transaction([PROFILES_STORE, META_STORE], 'readonly');
+  const meta = readTx.objectStore(META_STORE);
+  const [profileCount, v1Settings, v1Avatar] = await Promise.all([
+    requestToPromise(readTx.objectStore(PROFILES_STORE).count()),
+    requestToPromise<unknown>(meta.get(V1_META_SETTINGS)),
+    requestToPromise<string | undefined>(meta.get(V1_META_AVATAR)),
+  ]);
+
+  if (profileCount > 0) return;
+
+  await writeTransaction([PROFILES_STORE, META_STORE], tx => {
+    const profile: LearnerProfile = {
+      id: DEFAULT_PROFILE_ID,
+      name: DEFAULT_PROFILE_NAME,
+      avatar: v1Avatar || null,
+      createdAt: Date.now(),
+    };
+    tx.objectStore(PROFILES_STORE).put(profile);
+
+    const metaStore = tx.objectStore(META_STORE);
+    if (v1Settings) metaStore.put(v1Settings, settingsKey(DEFAULT_PROFILE_ID));
+    metaStore.delete(V1_META_SETTINGS);
+    metaStore.delete(V1_META_AVATAR);
+    metaStore.put(DEFAULT_PROFILE_ID, META_ACTIVE_PROFILE);
+  });
+  console.log('Created default learner profile');
+};
+
+// ==================== Migration from localStorage ====================
+
+/**
+ * Copy any data still living in the legacy localStorage keys into IndexedDB
+ * (into the active profile), then remove those keys to free the ~5MB
+ * localStorage quota. Runs on every start, so it is a no-op once the keys are gone.
+ */
+const migrateFromLocalStorage = async (): Promise<void> => {
+  const legacyWords = localStorage.getItem(LEGACY_WORDS_KEY);
+  const legacySettings = localStorage.getItem(LEGACY_SETTINGS_KEY);
+  const legacyAvatar = localStorage.getItem(LEGACY_AVATAR_KEY);
 
-  // Merge with default to handle new fields (like silenceThreshold) for existing users
-  const merged = { ...DEFAULT_SETTINGS, ...JSON.parse(data) };
-  const safePerChar = Number.isFinite(merged.perCharInterval) ? clamp(merged.perCharInterval, 1, 10) : DEFAULT_SETTINGS.perCharInterval;
-
-  return { ...merged, perCharInterval: safePerChar };
-};
-
-// Spaced Repetition Logic (Modified based on user request)
-// Correct = Mastered (Long interval)
-// Incorrect = Needs Review (Immediate interval)
-export const calculateNextReview = (word: WordItem, isCorrect: boolean): WordItem => {
-  const now = Date.now();
-  const ONE_DAY = 24 * 60 * 60 * 1000;
-
-  let { streak, easeFactor, interval, totalAttempts, totalWrong, lastWrongAt } = word;
-
-  // Initialize stats if they don't exist (migration)
-  totalAttempts = (totalAttempts || 0) + 1;
-  totalWrong = totalWrong || 0;
-  // lastWrongAt stays as is unless updated below
-
-  if (isCorrect) {
-    // Logic Changed: Correct now implies "Mastered".
-    // We set streak to a high value (e.g., 10) so it appears as Mastered in UI (since >3 is mastered).
-    // We set a longer interval (e.g., 14 days) so it doesn't appear in review soon.
-    streak = Math.max(streak + 1, 10);
-    // If it was already a long interval, keep it, otherwise jump to 14 days
-    interval = interval > 14 ? Math.round(interval * 1.3) : 14;
-
-    // Ease factor adjusts slightly
-    easeFactor = Math.max(1.3, easeFactor + 0.1);
-  } else {
-    // Logic: Incorrect implies "Needs Review"
-    streak = 0;
-    interval = 0; // Review again immediately
-    easeFactor = Math.max(1.3, easeFactor - 0.2);
-
-    // Update stats for smart review
-    totalWrong += 1;
-    lastWrongAt = now;
+  if (legacyWords === null && legacySettings === null && legacyAvatar === null) return;
+
+  console.log('Migrating data from localStorage to IndexedDB...');
+
+  let parsedWords: unknown[] = [];
+  let parsedSettings: Partial<DictationSettings> | null = null;
+  try {
+    parsedWords = legacyWords ? JSON.parse(legacyWords) : [];
+    parsedSettings = legacySettings ? JSON.parse(legacySettings) : null;
+  } catch (err) {
+    // Keep the legacy keys untouched so nothing is lost; report and stop
+    console.error('Legacy data is not valid JSON, migration skipped:', err);
+    return;
   }
 
-  // Calculate next review timestamp. 
-  // If interval is 0 (wrong answer), we set nextReview to NOW so it appears in "Due" list immediately.
-  // Otherwise we add the interval days.
-  const nextReviewTime = interval === 0 ? now : now + (interval * ONE_DAY);
+  const profileId = await loadActiveProfileId();
+  const profile = (await loadProfiles()).find(p => p.id === profileId);
+
+  // localStorage data predates schema versioning, so it is always v1
+  const words = (Array.isArray(parsedWords) ? migrateWords(1, parsedWords) : [])
+    .map(raw => validateWord(raw).word)
+    .filter((word): word is WordItem => word !== null);
+
+  await writeTransaction([WORDS_STORE, META_STORE, PROFILES_STORE], tx => {
+    const wordStore = tx.objectStore(WORDS_STORE);
+    words.forEach(word => wordStore.put({ ...word, profileId }));
+
+    if (parsedSettings && typeof parsedSettings === 'object') {
+      tx.objectStore(META_STORE).put(parsedSettings, settingsKey(profileId));
+    }
+    if (legacyAvatar && profile) {
+      tx.objectStore(PROFILES_STORE).put({ ...profile, avatar: legacyAvatar });
+    }
+  });
+
+  localStorage.removeItem(LEGACY_WORDS_KEY);
+  localStorage.removeItem(LEGACY_SETTINGS_KEY);
+  localStorage.removeItem(LEGACY_AVATAR_KEY);
+  console.log('Migration complete:', words.length, 'words');
+};
+
+/**
+ * Upgrade stored words to SCHEMA_VERSION. Records that cannot be repaired are
+ * left out of the rewrite and removed, since the app could never display them.
+ */
+const upgradeStoredSchema = async (db: IDBDatabase): Promise<void> => {
+  const readTx = db.transaction([WORDS_STORE, META_STORE], 'readonly');
+  const [storedVersion, rawWords] = await Promise.all([
+    requestToPromise<number | undefined>(readTx.objectStore(META_STORE).get(META_SCHEMA_VERSION)),
+    requestToPromise<StoredWord[]>(readTx.objectStore(WORDS_STORE).getAll()),
+  ]);
+
+  // Databases created before versioning hold v1 data
+  const version = storedVersion ?? 1;
+  if (version === SCHEMA_VERSION) return;
+
+  const migrated = migrateWords(version, rawWords);
+  let removed = 0;
+
+  await writeTransaction([WORDS_STORE, META_STORE], tx => {
+    const wordStore = tx.objectStore(WORDS_STORE);
+    wordStore.clear();
+    migrated.forEach((raw, index) => {
+      const { word } = validateWord(raw);
+      if (word) {
+        wordStore.put({ ...word, profileId: rawWords[index].profileId });
+      } else {
+        removed++;
+      }
+    });
+    tx.objectStore(META_STORE).put(SCHEMA_VERSION, META_SCHEMA_VERSION);
+  });
+  console.log(`Stored data upgraded v${version} -> v${SCHEMA_VERSION}: ${removed} records removed`);
+};
+
+/**
+ * Open the database, create the first profile, migrate legacy data and
+ * upgrade it to the current schema. Must be awaited before loading.
+ */
+export const initStorage = async (): Promise<void> => {
+  const db = await openDatabase();
+  await ensureDefaultProfile(db);
+  await migrateFromLocalStorage();
+  await upgradeStoredSchema(db);
+};
+
+// ==================== Sync tracking ====================
+
+/**
+ * Per-profile sync progress. It exists once a profile was synced, and from
+ * then on every local word and review log write records what to push next.
+ */
+interface SyncState {
+  remoteId: string; // Profile id on the endpoint; differs when matched by name
+  cursor: string | null;
+  lastSyncedAt: number | null;
+  pendingWords: Record<string, number>;   // Word id -> updatedAt of the change
+  pendingDeletes: Record<string, number>; // Word id -> deletedAt
+  pendingEvents: string[];
+}
+
+// Call inside a readwrite transaction that includes META_STORE
+const trackPendingSync = (tx: IDBTransaction, profileId: string, record: (state: SyncState) => void) => {
+  const store = tx.objectStore(META_STORE);
+  const request = store.get(syncStateKey(profileId));
+  request.onsuccess = () => {
+    const state = request.result as SyncState | undefined;
+    if (!state) return;
+    record(state);
+    store.put(state, syncStateKey(profileId));
+  };
+};
+
+// ==================== Words ====================
+
+// Last state known to be on disk per profile, used to write only changed records.
+// Words are updated immutably in React, so a changed word is a new object.
+const persistedWords = new Map<string, Map<string, WordItem>>();
+
+// Serialize writes so each diff is computed against the previous completed save
+let writeQueue: Promise<void> = Promise.resolve();
+
+export const loadWords = async (profileId: string): Promise<WordItem[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(WORDS_STORE, 'readonly');
+  const records = await requestToPromise<StoredWord[]>(
+    tx.objectStore(WORDS_STORE).index('profileId').getAll(profileId)
+  );
+
+  // Guard against records that were corrupted after the schema upgrade;
+  // the dashboard assumes every word is well-formed.
+  const words: WordItem[] = [];
+  const persisted = new Map<string, WordItem>();
+  let problems = 0;
+
+  records.forEach(({ profileId: _owner, ...raw }) => {
+    const { word, repaired } = validateWord(raw);
+    if (!word) {
+      problems++;
+      return;
+    }
+    words.push(word);
+    // Repaired records are left out so the next save writes them back
+    if (repaired) problems++;
+    else persisted.set(word.id, word);
+  });
+
+  if (problems > 0) console.warn(`Loaded words with ${problems} repaired or skipped records`);
+
+  persistedWords.set(profileId, persisted);
+  return words;
+};
+
+/**
+ * Outcome of a save: words another tab changed concurrently were merged, and
+ * words another tab deleted were not written back. The caller should apply
+ * both to its state.
+ */
+export interface WordSaveResult {
+  resolved: Map<WordItem, WordItem>; // My copy -> merged copy that was stored
+  droppedIds: string[];
+}
+
+const writeWordDiff = async (profileId: string, words: WordItem[]): Promise<WordSaveResult> => {
+  const persisted = persistedWords.get(profileId) ?? new Map<string, WordItem>();
+  const nextIds = new Set(words.map(w => w.id));
+  const changed = words.filter(w => persisted.get(w.id) !== w);
+  const removedIds = [...persisted.keys()].filter(id => !nextIds.has(id));
+  const resolved = new Map<WordItem, WordItem>();
+  const droppedIds: string[] = [];
+
+  if (changed.length === 0 && removedIds.length === 0) return { resolved, droppedIds };
+
+  const written: WordItem[] = [];
+  // Each changed word is compared with the stored copy in the same transaction,
+  // so a write from another tab cannot slip in between the check and the put.
+  // On failure persisted is untouched, so the next save retries the same diff.
+  await writeTransaction([WORDS_STORE, META_STORE], tx => {
+    const store = tx.objectStore(WORDS_STORE);
+    changed.forEach(word => {
+      const base = persisted.get(word.id);
+      if (!base) {
+        store.put({ ...word, profileId });
+        written.push(word);
+        return;
+      }
+      const request = store.get([profileId, word.id]);
+      request.onsuccess = () => {
+        const stored = request.result as StoredWord | undefined;
+        if (!stored) {
+          // Deleted in another tab since this tab loaded it
+          droppedIds.push(word.id);
+          return;
+        }
+        const { profileId: _owner, ...theirs } = stored;
+        if (theirs.updatedAt === base.updatedAt) {
+          store.put({ ...word, profileId });
+          written.push(word);
+          return;
+        }
+        const merged = mergeConcurrentEdits(base, theirs, word);
+        store.put({ ...merged, profileId });
+        resolved.set(word, merged);
+        written.push(merged);
+      };
+    });
+    removedIds.forEach(id => store.delete([profileId, id]));
+    // Requests run in order, so every changed word has been handled by now
+    trackPendingSync(tx, profileId, state => {
+      written.forEach(word => { state.pendingWords[word.id] = word.updatedAt; });
+      removedIds.forEach(id => {
+        delete state.pendingWords[id];
+        state.pendingDeletes[id] = Date.now();
+      });
+    });
+  });
+
+  written.forEach(word => persisted.set(word.id, word));
+  droppedIds.forEach(id => persisted.delete(id));
+  removedIds.forEach(id => persisted.delete(id));
+  persistedWords.set(profileId, persisted);
+  notifyChange({ kind: 'words', profileId, changedIds: written.map(w => w.id), deletedIds: removedIds });
+  console.log(`Words saved to IndexedDB: ${written.length} written (${resolved.size} merged), ${removedIds.length} deleted`);
+  return { resolved, droppedIds };
+};
+
+/**
+ * Persist the full word list of a profile by writing only the records that
+ * changed since the last load or successful save. Rejects with a user-facing
+ * Error on failure.
+ */
+export const saveWords = (profileId: string, words: WordItem[]): Promise<WordSaveResult> => {
+  const run = writeQueue.then(() => writeWordDiff(profileId, words));
+  // Keep the queue alive after a failure; the caller still sees the rejection
+  writeQueue = run.then(() => undefined, () => undefined);
+  return run;
+};
+
+/**
+ * Read the words another tab reported as changed and return an updater for the
+ * word state. Words with edits this tab has not saved yet are left alone; the
+ * next save merges them with the stored copy.
+ */
+export const applyRemoteWordChanges = async (
+  profileId: string,
+  changedIds: string[],
+  deletedIds: string[]
+): Promise<(current: WordItem[]) => WordItem[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(WORDS_STORE, 'readonly');
+  const store = tx.objectStore(WORDS_STORE);
+  const records = await Promise.all(
+    changedIds.map(id => requestToPromise<StoredWord | undefined>(store.get([profileId, id])))
+  );
+  const incoming = new Map<string, WordItem>();
+  records.forEach(record => {
+    if (!record) return;
+    const { profileId: _owner, ...raw } = record;
+    const { word } = validateWord(raw);
+    if (word) incoming.set(word.id, word);
+  });
+  const deleted = new Set(deletedIds);
+
+  return (current: WordItem[]) => {
+    const persisted = persistedWords.get(profileId);
+    if (!persisted) return current;
+    const isClean = (word: WordItem) => persisted.get(word.id) === word;
+
+    const next = current
+      .filter(word => !(deleted.has(word.id) && isClean(word)))
+      .map(word => {
+        const remote = incoming.get(word.id);
+        if (!remote || !isClean(word)) return word;
+        persisted.set(word.id, remote);
+        return remote;
+      });
+    const knownIds = new Set(current.map(w => w.id));
+    incoming.forEach((word, id) => {
+      if (knownIds.has(id)) return;
+      persisted.set(id, word);
+      next.push(word);
+    });
+    deleted.forEach(id => {
+      if (!next.some(w => w.id === id)) persisted.delete(id);
+    });
+    return next;
+  };
+};
+
+// ==================== Review Log ====================
+
+export const loadReviewEvents = async (profileId: string): Promise<ReviewEvent[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(EVENTS_STORE, 'readonly');
+  const records = await requestToPromise<StoredEvent[]>(
+    tx.objectStore(EVENTS_STORE).index('profileId').getAll(profileId)
+  );
+  return records
+    .map(({ profileId: _owner, ...event }) => event)
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Add events to the review log of a profile. Events are never changed once
+ * written; writing the same event again is harmless, which makes retries safe.
+ */
+export const appendReviewEvents = async (profileId: string, events: ReviewEvent[]): Promise<void> => {
+  if (events.length === 0) return;
+  await writeTransaction([EVENTS_STORE, META_STORE], tx => {
+    const store = tx.objectStore(EVENTS_STORE);
+    events.forEach(event => store.put({ ...event, profileId }));
+    trackPendingSync(tx, profileId, state => {
+      // An event written again, e.g. by a retry, is uploaded once
+      state.pendingEvents = [...new Set([...state.pendingEvents, ...events.map(e => e.id)])];
+    });
+  });
+  notifyChange({ kind: 'reviewEvents', profileId });
+};
+
+// ==================== Session History ====================
+
+/**
+ * Completed sessions of a profile, newest first
+ */
+export const loadSessions = async (profileId: string): Promise<SessionRecord[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS_STORE, 'readonly');
+  const records = await requestToPromise<StoredSession[]>(
+    tx.objectStore(SESSIONS_STORE).index('profileId').getAll(profileId)
+  );
+  return records
+    .map(({ profileId: _owner, ...session }) => session)
+    .sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const saveSession = async (profileId: string, session: SessionRecord): Promise<void> => {
+  await writeTransaction([SESSIONS_STORE], tx => {
+    tx.objectStore(SESSIONS_STORE).put({ ...session, profileId });
+  });
+  notifyChange({ kind: 'sessions', profileId });
+};
+
+// ==================== Recycle Bin ====================
+
+/**
+ * Words kept in snapshots and the recycle bin stay as they were written, so
+ * they are brought up to SCHEMA_VERSION when read. Records without a version
+ * predate it and are treated as v1; the word migrations only fill in missing
+ * fields. Words that cannot be repaired are left out.
+ */
+const upgradeKeptWords = (version: number | undefined, words: unknown[], source: string): WordItem[] => {
+  const upgraded = migrateWords(version, words)
+    .map(raw => validateWord(raw).word)
+    .filter((word): word is WordItem => word !== null);
+  if (upgraded.length < words.length) {
+    console.warn(`${source}: ${words.length - upgraded.length} unreadable words left out`);
+  }
+  return upgraded;
+};
+
+/**
+ * Recycle bin of a profile, newest first. Entries older than `retentionDays`
+ * are purged on the way; without it nothing is purged.
+ */
+export const loadTrash = async (profileId: string, retentionDays?: number): Promise<TrashEntry[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(TRASH_STORE, 'readonly');
+  const records = await requestToPromise<StoredTrashEntry[]>(
+    tx.objectStore(TRASH_STORE).index('profileId').getAll(profileId)
+  );
+  const entries = records
+    .map(({ profileId: _owner, schemaVersion, ...entry }) => ({
+      ...entry,
+      words: upgradeKeptWords(schemaVersion, entry.words, `Recycle bin entry ${entry.id}`),
+    }))
+    .sort((a, b) => b.deletedAt - a.deletedAt);
+  if (retentionDays === undefined) return entries;
+
+  const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+  const expired = entries.filter(e => e.deletedAt < cutoff);
+  if (expired.length > 0) {
+    await deleteTrashEntries(profileId, expired.map(e => e.id));
+    console.log(`Purged ${expired.length} recycle bin entries older than ${retentionDays} days`);
+  }
+  return entries.filter(e => e.deletedAt >= cutoff);
+};
+
+export const saveTrashEntry = async (profileId: string, entry: TrashEntry): Promise<void> => {
+  await writeTransaction([TRASH_STORE], tx => {
+    tx.objectStore(TRASH_STORE).put({ ...entry, profileId, schemaVersion: SCHEMA_VERSION });
+  });
+  notifyChange({ kind: 'trash', profileId });
+};
+
+export const deleteTrashEntries = async (profileId: string, entryIds: string[]): Promise<void> => {
+  await writeTransaction([TRASH_STORE], tx => {
+    const store = tx.objectStore(TRASH_STORE);
+    entryIds.forEach(id => store.delete([profileId, id]));
+  });
+  notifyChange({ kind: 'trash', profileId });
+};
+
+// ==================== Snapshots ====================
+
+/**
+ * Snapshots of a profile, newest first
+ */
+export const loadSnapshots = async (profileId: string): Promise<Snapshot[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SNAPSHOTS_STORE, 'readonly');
+  const records = await requestToPromise<StoredSnapshot[]>(
+    tx.objectStore(SNAPSHOTS_STORE).index('profileId').getAll(profileId)
+  );
+  return records
+    .map(({ profileId: _owner, schemaVersion, ...snapshot }) => ({
+      ...snapshot,
+      words: upgradeKeptWords(schemaVersion, snapshot.words, `Snapshot ${snapshot.id}`),
+      settings: { ...DEFAULT_SETTINGS, ...validateSettings(snapshot.settings).settings },
+    }))
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * Store a snapshot and delete the oldest ones so that `keep` remain
+ */
+export const saveSnapshot = (profileId: string, snapshot: Snapshot, keep: number): Promise<void> => {
+  return writeTransaction([SNAPSHOTS_STORE], tx => {
+    const store = tx.objectStore(SNAPSHOTS_STORE);
+    store.put({ ...snapshot, profileId, schemaVersion: SCHEMA_VERSION });
+    const request = store.index('profileId').getAll(profileId);
+    request.onsuccess = () => {
+      (request.result as StoredSnapshot[])
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .slice(keep)
+        .forEach(({ id }) => store.delete([profileId, id]));
+    };
+  });
+};
+
+// ==================== Remote Sync ====================
+
+export const loadSyncConfig = async (): Promise<SyncConfig | null> => {
+  return (await getMeta<SyncConfig>(META_SYNC_CONFIG)) ?? null;
+};
+
+/**
+ * Save or remove (null) the sync endpoint. Progress recorded for the previous
+ * endpoint is dropped, so the next sync starts over with a full upload.
+ */
+export const saveSyncConfig = async (config: SyncConfig | null): Promise<void> => {
+  await writeTransaction([META_STORE], tx => {
+    const store = tx.objectStore(META_STORE);
+    store.delete(IDBKeyRange.bound(syncStateKey(''), syncStateKey('\uffff')));
+    if (config) store.put(config, META_SYNC_CONFIG);
+    else store.delete(META_SYNC_CONFIG);
+  });
+  notifyChange({ kind: 'syncConfig' });
+};
+
+export const loadLastSyncedAt = async (profileId: string): Promise<number | null> => {
+  return (await getMeta<SyncState>(syncStateKey(profileId)))?.lastSyncedAt ?? null;
+};
+
+// Local data to upload: everything on the first sync, otherwise the pending changes
+const readOutgoingChanges = async (profileId: string, state: SyncState): Promise<SyncChanges> => {
+  const db = await openDatabase();
+  const tx = db.transaction([WORDS_STORE, EVENTS_STORE], 'readonly');
+  const wordStore = tx.objectStore(WORDS_STORE);
+  const eventStore = tx.objectStore(EVENTS_STORE);
+
+  const [wordRecords, eventRecords] = state.lastSyncedAt === null
+    ? await Promise.all([
+        requestToPromise<StoredWord[]>(wordStore.index('profileId').getAll(profileId)),
+        requestToPromise<StoredEvent[]>(eventStore.index('profileId').getAll(profileId)),
+      ])
+    : await Promise.all([
+        Promise.all(Object.keys(state.pendingWords).map(id =>
+          requestToPromise<StoredWord | undefined>(wordStore.get([profileId, id]))
+        )),
+        Promise.all(state.pendingEvents.map(id =>
+          requestToPromise<StoredEvent | undefined>(eventStore.get([profileId, id]))
+        )),
+      ]);
 
   return {
-    ...word,
-    lastReviewed: now,
-    nextReview: nextReviewTime,
-    streak,
-    easeFactor,
-    interval,
-    totalAttempts,
-    totalWrong,
-    lastWrongAt
+    words: wordRecords
+      .filter((record): record is StoredWord => record !== undefined)
+      .map(({ profileId: _owner, ...word }) => word),
+    deletedWords: Object.entries(state.pendingDeletes).map(([id, deletedAt]) => ({ id, deletedAt })),
+    reviewEvents: eventRecords
+      .filter((record): record is StoredEvent => record !== undefined)
+      .map(({ profileId: _owner, ...event }) => event),
   };
-};
\ No newline at end of file
+};
+
+/**
+ * Store pulled changes where they are newer than the local copy. Local
+ * deletions not uploaded yet win over older remote copies.
+ */
+const applyPulledChanges = async (
+  profileId: string,
+  changes: SyncChanges,
+  pendingDeletes: Record<string, number>
+): Promise<{ changedIds: string[]; deletedIds: string[] }> => {
+  const changedIds: string[] = [];
+  const deletedIds: string[] = [];
+
+  await writeTransaction([WORDS_STORE, EVENTS_STORE], tx => {
+    const wordStore = tx.objectStore(WORDS_STORE);
+    changes.words.forEach(word => {
+      if ((pendingDeletes[word.id] ?? -Infinity) >= word.updatedAt) return;
+      const request = wordStore.get([profileId, word.id]);
+      request.onsuccess = () => {
+        if (!isNewerWord(word, request.result as StoredWord | undefined)) return;
+        wordStore.put({ ...word, profileId });
+        changedIds.push(word.id);
+      };
+    });
+    changes.deletedWords.forEach(({ id, deletedAt }) => {
+      const request = wordStore.get([profileId, id]);
+      request.onsuccess = () => {
+        const stored = request.result as StoredWord | undefined;
+        if (!stored || stored.updatedAt > deletedAt) return;
+        wordStore.delete([profileId, id]);
+        deletedIds.push(id);
+      };
+    });
+    const eventStore = tx.objectStore(EVENTS_STORE);
+    changes.reviewEvents.forEach(event => eventStore.put({ ...event, profileId }));
+  });
+
+  return { changedIds, deletedIds };
+};
+
+// Forget pending changes that were uploaded, unless they changed again meanwhile
+const finishSync = (profileId: string, cursor: string | null, pushed: SyncChanges): Promise<void> => {
+  return writeTransaction([META_STORE], tx => {
+    trackPendingSync(tx, profileId, state => {
+      pushed.words.forEach(word => {
+        if ((state.pendingWords[word.id] ?? Infinity) <= word.updatedAt) delete state.pendingWords[word.id];
+      });
+      pushed.deletedWords.forEach(({ id, deletedAt }) => {
+        if ((state.pendingDeletes[id] ?? Infinity) <= deletedAt) delete state.pendingDeletes[id];
+      });
+      const pushedEvents = new Set(pushed.reviewEvents.map(e => e.id));
+      state.pendingEvents = state.pendingEvents.filter(id => !pushedEvents.has(id));
+      state.cursor = cursor;
+      state.lastSyncedAt = Date.now();
+    });
+  });
+};
+
+export interface SyncedProfileChanges {
+  profileId: string;
+  changedIds: string[];
+  deletedIds: string[];
+  reviewEventsChanged: boolean;
+}
+
+const newSyncState = (remoteId: string): SyncState => ({
+  remoteId,
+  cursor: null,
+  lastSyncedAt: null,
+  pendingWords: {},
+  pendingDeletes: {},
+  pendingEvents: [],
+});
+
+/**
+ * Pull and push every profile. Profiles created on other devices are added
+ * here; profiles are matched by id, then by name. Throws a user-facing Error
+ * when the endpoint fails; pending changes are kept for the next attempt.
+ */
+export const syncWithRemote = async (
+  adapter: SyncAdapter
+): Promise<{ profilesAdded: boolean; changes: SyncedProfileChanges[] }> => {
+  const remoteProfiles = await adapter.listProfiles();
+  const profiles = await loadProfiles();
+
+  const states = new Map<string, SyncState>();
+  for (const profile of profiles) {
+    const state = await getMeta<SyncState>(syncStateKey(profile.id))
+      ?? newSyncState(findTargetProfile(profile, remoteProfiles)?.id ?? profile.id);
+    states.set(profile.id, state);
+  }
+
+  const mappedRemoteIds = new Set([...states.values()].map(state => state.remoteId));
+  const newProfiles = remoteProfiles.filter(p => !mappedRemoteIds.has(p.id) && !states.has(p.id));
+  if (newProfiles.length > 0) {
+    await writeTransaction([PROFILES_STORE], tx => {
+      newProfiles.forEach(profile => tx.objectStore(PROFILES_STORE).put(profile));
+    });
+    newProfiles.forEach(profile => {
+      profiles.push(profile);
+      states.set(profile.id, newSyncState(profile.id));
+    });
+    notifyChange({ kind: 'profiles' });
+  }
+
+  const results: SyncedProfileChanges[] = [];
+  for (const profile of profiles) {
+    const state = states.get(profile.id)!;
+    // Start tracking before reading the data for the first upload
+    if (state.lastSyncedAt === null) await setMeta(syncStateKey(profile.id), state);
+    if (!remoteProfiles.some(p => p.id === state.remoteId)) {
+      await adapter.saveProfile({ ...profile, id: state.remoteId });
+    }
+
+    const pulled = await adapter.pullChanges(state.remoteId, state.cursor);
+    const applied = await applyPulledChanges(profile.id, pulled.changes, state.pendingDeletes);
+    const outgoing = await readOutgoingChanges(profile.id, state);
+    if (hasSyncChanges(outgoing)) await adapter.pushChanges(state.remoteId, outgoing);
+    await finishSync(profile.id, pulled.cursor, outgoing);
+
+    const reviewEventsChanged = pulled.changes.reviewEvents.length > 0;
+    if (applied.changedIds.length > 0 || applied.deletedIds.length > 0) {
+      notifyChange({ kind: 'words', profileId: profile.id, ...applied });
+    }
+    if (reviewEventsChanged) notifyChange({ kind: 'reviewEvents', profileId: profile.id });
+    results.push({ profileId: profile.id, ...applied, reviewEventsChanged });
+  }
+
+  console.log(`Synced ${results.length} profiles, ${newProfiles.length} added from the endpoint`);
+  return { profilesAdded: newProfiles.length > 0, changes: results };
+};
+
+// ==================== Daily Plan ====================
+
+// Only the device's own plan is kept; it is not synced or backed up
+export const loadDailyPlan = async (profileId: string): Promise<DailyPlan | null> =>
+  validateDailyPlan(await getMeta(dailyPlanKey(profileId)));
+
+export const saveDailyPlan = async (profileId: string, plan: DailyPlan): Promise<void> => {
+  await setMeta(dailyPlanKey(profileId), plan);
+  notifyChange({ kind: 'dailyPlan', profileId });
+};
+
+// ==================== Active Session ====================
+
+// Saved as the dictation goes on; other tabs are not told, as only this one plays it
+export const loadActiveSession = async (profileId: string): Promise<ActiveSession | null> =>
+  validateActiveSession(await getMeta(activeSessionKey(profileId)));
+
+export const saveActiveSession = async (profileId: string, session: ActiveSession | null): Promise<void> => {
+  await writeTransaction([META_STORE], tx => {
+    const store = tx.objectStore(META_STORE);
+    if (session) store.put(session, activeSessionKey(profileId));
+    else store.delete(activeSessionKey(profileId));
+  });
+};
+
+// ==================== Settings ====================
+
+// Last settings loaded or saved per profile (as JSON). Saving the same value
+// again is skipped, so reloading settings from another tab does not echo back.
+const persistedSettings = new Map<string, string>();
+
+export const saveSettings = async (profileId: string, settings: DictationSettings): Promise<void> => {
+  const json = JSON.stringify(settings);
+  if (persistedSettings.get(profileId) === json) return;
+  await setMeta(settingsKey(profileId), settings);
+  persistedSettings.set(profileId, json);
+  notifyChange({ kind: 'settings', profileId });
+};
+
+export const loadSettings = async (profileId: string): Promise<DictationSettings> => {
+  const data = await getMeta<Partial<DictationSettings>>(settingsKey(profileId));
+  if (!data) return DEFAULT_SETTINGS;
+
+  // Merge with default to handle new fields (like silenceThreshold) for existing users.
+  // Invalid values are clamped or dropped in favour of the default.
+  const { settings, issues } = validateSettings(data);
+  if (issues.length > 0) console.warn('Stored settings repaired:', issues);
+
+  const merged = { ...DEFAULT_SETTINGS, ...settings };
+  persistedSettings.set(profileId, JSON.stringify(merged));
+  return merged;
+};
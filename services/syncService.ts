@@ -0,0 +1,234 @@
+import { WordItem, LearnerProfile, SyncBackend, SyncChanges, SyncConfig } from '../types';
+import { validateProfile, validateSyncChanges } from './schemaService';
+
+/**
+ * Combine two edits of the same word made from a common base copy, e.g. by
+ * two open tabs.
+ * Scheduling comes from the copy reviewed most recently, so a correction result
+ * is never replaced by an older state. Counters add up the attempts recorded
+ * on both sides since the base. Text and group keep my edit when I made one.
+ */
+export const mergeConcurrentEdits = (base: WordItem, theirs: WordItem, mine: WordItem): WordItem => {
+  const reviewed = (mine.lastReviewed ?? 0) >= (theirs.lastReviewed ?? 0) ? mine : theirs;
+  const pickEdit = <K extends 'text' | 'groupTitle' | 'addedAt'>(field: K): WordItem[K] =>
+    mine[field] !== base[field] ? mine[field] : theirs[field];
+
+  const totalAttempts = theirs.totalAttempts + Math.max(0, mine.totalAttempts - base.totalAttempts);
+  const totalWrong = theirs.totalWrong + Math.max(0, mine.totalWrong - base.totalWrong);
+
+  return {
+    ...reviewed,
+    id: base.id,
+    text: pickEdit('text'),
+    groupTitle: pickEdit('groupTitle'),
+    addedAt: pickEdit('addedAt'),
+    totalAttempts: Math.max(totalAttempts, totalWrong),
+    totalWrong,
+    lastWrongAt: Math.max(theirs.lastWrongAt ?? 0, mine.lastWrongAt ?? 0) || null,
+    updatedAt: Math.max(theirs.updatedAt, mine.updatedAt),
+  };
+};
+
+// ==================== Merging ====================
+
+// Devices resolve conflicts per word: the copy changed last wins
+export const isNewerWord = (incoming: WordItem, stored: WordItem | undefined): boolean =>
+  !stored || incoming.updatedAt > stored.updatedAt;
+
+export const EMPTY_SYNC_CHANGES: SyncChanges = { words: [], deletedWords: [], reviewEvents: [] };
+
+export const hasSyncChanges = (changes: SyncChanges): boolean =>
+  changes.words.length > 0 || changes.deletedWords.length > 0 || changes.reviewEvents.length > 0;
+
+/**
+ * How long deletions are kept in the remote copy. A device that has not synced
+ * for longer keeps words that were deleted elsewhere meanwhile.
+ */
+export const TOMBSTONE_RETENTION_DAYS = 90;
+
+/**
+ * Apply changes to a full copy of a profile's data, the way a sync server
+ * does: newer words replace older ones, a deletion wins over edits made
+ * before it, and review logs are combined. Deletions older than the retention
+ * window are dropped, so the copy does not grow with every deleted word.
+ */
+export const mergeSyncChanges = (current: SyncChanges, changes: SyncChanges, now: number = Date.now()): SyncChanges => {
+  const words = new Map(current.words.map(w => [w.id, w]));
+  const deleted = new Map(current.deletedWords.map(t => [t.id, t]));
+
+  changes.words.forEach(word => {
+    const tombstone = deleted.get(word.id);
+    if (tombstone && tombstone.deletedAt >= word.updatedAt) return;
+    if (!isNewerWord(word, words.get(word.id))) return;
+    words.set(word.id, word);
+    deleted.delete(word.id);
+  });
+  changes.deletedWords.forEach(tombstone => {
+    const word = words.get(tombstone.id);
+    if (word && word.updatedAt > tombstone.deletedAt) return;
+    words.delete(tombstone.id);
+    deleted.set(tombstone.id, tombstone);
+  });
+
+  const events = new Map(current.reviewEvents.map(e => [e.id, e]));
+  changes.reviewEvents.forEach(event => events.set(event.id, event));
+
+  const cutoff = now - TOMBSTONE_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  return {
+    words: [...words.values()],
+    deletedWords: [...deleted.values()].filter(t => t.deletedAt >= cutoff),
+    reviewEvents: [...events.values()].sort((a, b) => a.timestamp - b.timestamp),
+  };
+};
+
+// ==================== Adapters ====================
+
+/**
+ * A remote store for profiles and their words and review logs.
+ * The cursor is opaque to the app: it is handed back on the next pull so the
+ * endpoint can return only what changed since.
+ */
+export interface SyncAdapter {
+  listProfiles(): Promise<LearnerProfile[]>;
+  saveProfile(profile: LearnerProfile): Promise<void>;
+  pullChanges(profileId: string, cursor: string | null): Promise<{ changes: SyncChanges; cursor: string | null }>;
+  pushChanges(profileId: string, changes: SyncChanges): Promise<void>;
+}
+
+const toBase64 = (text: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text)));
+
+// Network failures mean "offline": the caller keeps the changes for the next attempt
+const request = async (url: string, init: RequestInit): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, cache: 'no-store' });
+  } catch {
+    throw new Error('无法连接同步服务器，修改已保存在本机，恢复连接后会自动同步');
+  }
+  if (response.status === 401 || response.status === 403) {
+    throw new Error('同步服务器拒绝访问，请检查用户名和密码');
+  }
+  return response;
+};
+
+const serverError = (response: Response) => new Error(`同步失败：服务器返回 ${response.status}`);
+
+const readJson = async (response: Response): Promise<unknown> => {
+  try {
+    return await response.json();
+  } catch {
+    throw new Error('同步失败：服务器返回的数据无法识别');
+  }
+};
+
+const parseProfiles = (raw: unknown): LearnerProfile[] =>
+  (Array.isArray(raw) ? raw : [])
+    .map(validateProfile)
+    .filter((profile): profile is LearnerProfile => profile !== null);
+
+/**
+ * WebDAV folder layout: profiles.json lists the profiles, and <profileId>.json
+ * holds all words, tombstones and review events of one profile. Files are
+ * rewritten with If-Match, so two devices pushing at once cannot lose data;
+ * the ETag serves as the pull cursor. WebDAV cannot send only what changed,
+ * so every pull and push transfers the whole file.
+ */
+const createWebDavAdapter = (config: SyncConfig): SyncAdapter => {
+  const base = config.url.replace(/\/+$/, '');
+  const auth: Record<string, string> = config.username
+    ? { Authorization: `Basic ${toBase64(`${config.username}:${config.password}`)}` }
+    : {};
+
+  const getFile = async (name: string, etag: string | null = null) => {
+    const response = await request(`${base}/${name}`, {
+      headers: { ...auth, ...(etag ? { 'If-None-Match': etag } : {}) },
+    });
+    if (response.status === 304) return { data: undefined, etag, exists: true };
+    if (response.status === 404) return { data: undefined, etag: null, exists: false };
+    if (!response.ok) throw serverError(response);
+    return { data: await readJson(response), etag: response.headers.get('ETag'), exists: true };
+  };
+
+  const updateFile = async (name: string, update: (current: unknown) => unknown): Promise<void> => {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const { data, etag, exists } = await getFile(name);
+      const condition: Record<string, string> = etag ? { 'If-Match': etag } : exists ? {} : { 'If-None-Match': '*' };
+      const response = await request(`${base}/${name}`, {
+        method: 'PUT',
+        headers: { ...auth, ...condition, 'Content-Type': 'application/json' },
+        body: JSON.stringify(update(data)),
+      });
+      // Another device wrote in between: read again and retry
+      if (response.status === 412) continue;
+      if (!response.ok) throw serverError(response);
+      return;
+    }
+    throw new Error('同步失败：其他设备正在同步，请稍后再试');
+  };
+
+  return {
+    listProfiles: async () => parseProfiles((await getFile('profiles.json')).data),
+
+    saveProfile: profile => updateFile('profiles.json', current => [
+      ...parseProfiles(current).filter(p => p.id !== profile.id),
+      profile,
+    ]),
+
+    pullChanges: async (profileId, cursor) => {
+      const { data, etag, exists } = await getFile(`${profileId}.json`, cursor);
+      if (!exists || data === undefined) return { changes: EMPTY_SYNC_CHANGES, cursor: etag };
+      return { changes: validateSyncChanges(data), cursor: etag };
+    },
+
+    pushChanges: (profileId, changes) => updateFile(`${profileId}.json`, current =>
+      mergeSyncChanges(validateSyncChanges(current), changes)
+    ),
+  };
+};
+
+/**
+ * Client for the REST contract documented in README ("自托管同步").
+ */
+const createRestAdapter = (config: SyncConfig): SyncAdapter => {
+  const base = config.url.replace(/\/+$/, '');
+  const auth: Record<string, string> = config.password ? { Authorization: `Bearer ${config.password}` } : {};
+  const profileUrl = (profileId: string) => `${base}/profiles/${encodeURIComponent(profileId)}`;
+
+  const send = async (url: string, method: string, body: unknown): Promise<void> => {
+    const response = await request(url, {
+      method,
+      headers: { ...auth, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) throw serverError(response);
+  };
+
+  return {
+    listProfiles: async () => {
+      const response = await request(`${base}/profiles`, { headers: auth });
+      if (!response.ok) throw serverError(response);
+      return parseProfiles(await readJson(response));
+    },
+
+    saveProfile: profile => send(profileUrl(profile.id), 'PUT', profile),
+
+    pullChanges: async (profileId, cursor) => {
+      const query = cursor ? `?since=${encodeURIComponent(cursor)}` : '';
+      const response = await request(`${profileUrl(profileId)}/changes${query}`, { headers: auth });
+      if (response.status === 404) return { changes: EMPTY_SYNC_CHANGES, cursor };
+      if (!response.ok) throw serverError(response);
+      const data = await readJson(response);
+      const nextCursor = (data as { cursor?: unknown } | null)?.cursor;
+      return {
+        changes: validateSyncChanges(data),
+        cursor: typeof nextCursor === 'string' ? nextCursor : cursor,
+      };
+    },
+
+    pushChanges: (profileId, changes) => send(`${profileUrl(profileId)}/changes`, 'POST', changes),
+  };
+};
+
+export const createSyncAdapter = (config: SyncConfig): SyncAdapter =>
+  config.backend === SyncBackend.WEBDAV ? createWebDavAdapter(config) : createRestAdapter(config);
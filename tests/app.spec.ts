@@ -18,7 +18,11 @@ test.describe('Dictation Assistant', () => {
 
     test.beforeEach(async ({ page }) => {
         await page.goto(BASE_URL, { waitUntil: 'networkidle' });
-        await page.evaluate(() => localStorage.clear());
+        await page.evaluate(() => new Promise<void>(resolve => {
+            localStorage.clear();
+            const request = indexedDB.deleteDatabase('dictation_assistant');
+            request.onsuccess = request.onerror = request.onblocked = () => resolve();
+        }));
         await page.reload({ waitUntil: 'networkidle' });
         await ensureDashboard(page);
     });
@@ -0,0 +1,60 @@
+import { test, expect } from '@playwright/test';
+import { buildCharacterIndex, getWeakCharacters, wordCharacters, wordsWithCharacters } from '../services/characterService';
+import { ReviewEvent, ReviewGrade, WordItem } from '../types';
+import { createWord } from './fixtures';
+
+const NOW = Date.UTC(2024, 5, 1);
+
+const makeWord = (id: string, text: string, totalAttempts: number): WordItem =>
+    createWord({ id, text, totalAttempts, addedAt: NOW, lastReviewed: NOW, nextReview: NOW, updatedAt: NOW });
+
+const makeEvent = (wordId: string, timestamp: number, wrongChars?: string[]): ReviewEvent => ({
+    id: `${wordId}-${timestamp}`,
+    wordId,
+    timestamp,
+    correct: false,
+    grade: ReviewGrade.PARTLY_WRONG,
+    wrongChars,
+    sessionId: 's1',
+    previousInterval: 0,
+    newInterval: 0,
+});
+
+const words = [
+    makeWord('w1', '葡萄', 4),
+    makeWord('w2', '萄', 2),
+    makeWord('w3', '苹果 apple', 2),
+    makeWord('w4', '水果', 2),
+];
+
+test.describe('characterService', () => {
+    test('lists the Chinese characters of a word once each', () => {
+        expect(wordCharacters('苹果 apple')).toEqual(['苹', '果']);
+        expect(wordCharacters('看一看')).toEqual(['看', '一']);
+    });
+
+    test('counts marked characters across words and ranks the weakest', () => {
+        const events = [
+            makeEvent('w1', NOW + 1, ['萄']),
+            makeEvent('w2', NOW + 2, ['萄']),
+            makeEvent('w3', NOW + 3, ['果']),
+            makeEvent('w4', NOW + 4, ['果']),
+            makeEvent('w1', NOW + 5), // Missed without marking characters
+            makeEvent('deleted', NOW + 6, ['葡']),
+        ];
+        const index = buildCharacterIndex(words, events);
+
+        expect(index.get('萄')).toMatchObject({ mistakes: 2, attempts: 6, lastMistakeAt: NOW + 2 });
+        expect(index.get('萄')!.words.map(w => w.id)).toEqual(['w1', 'w2']);
+        expect(index.get('葡')!.mistakes).toBe(0);
+
+        // Same number of mistakes: the higher mistake rate comes first
+        expect(getWeakCharacters(index).map(stats => stats.char)).toEqual(['果', '萄']);
+    });
+
+    test('builds a session from the words containing the characters', () => {
+        expect(wordsWithCharacters(words, ['萄', '果']).map(w => w.id)).toEqual(['w1', 'w2', 'w3', 'w4']);
+        expect(wordsWithCharacters(words, ['葡']).map(w => w.id)).toEqual(['w1']);
+        expect(wordsWithCharacters(words, [])).toEqual([]);
+    });
+});
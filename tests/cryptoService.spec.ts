@@ -0,0 +1,22 @@
+import { test, expect } from '@playwright/test';
+import { encryptBackup, decryptBackup, isEncryptedBackup } from '../services/cryptoService';
+
+const backup = JSON.stringify({ version: 5, exportDate: '2024-06-01T00:00:00.000Z', profiles: [{ profile: { name: '小明' } }] });
+
+test.describe('cryptoService', () => {
+    test('decrypts with the same passphrase', async () => {
+        const encrypted = await encryptBackup(backup, '正确的密码');
+        expect(isEncryptedBackup(encrypted)).toBe(true);
+        expect(isEncryptedBackup(backup)).toBe(false);
+        expect(encrypted).not.toContain('小明');
+        expect(await decryptBackup(encrypted, '正确的密码')).toBe(backup);
+    });
+
+    test('reports a wrong passphrase and a damaged file separately', async () => {
+        const encrypted = await encryptBackup(backup, 'secret');
+        await expect(decryptBackup(encrypted, 'Secret')).rejects.toThrow('密码不正确');
+
+        const damaged = JSON.stringify({ ...JSON.parse(encrypted), cipher: { name: 'AES-GCM', iv: '%%%' } });
+        await expect(decryptBackup(damaged, 'secret')).rejects.toThrow('已损坏');
+    });
+});
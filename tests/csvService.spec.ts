@@ -0,0 +1,60 @@
+import { test, expect } from '@playwright/test';
+import { decodeText, detectDelimiter, parseDelimited, guessColumnMapping, rowsToWordRecords, wordsToTable } from '../services/csvService';
+import { validateWords } from '../services/schemaService';
+import { SchedulerAlgorithm, WordItem } from '../types';
+
+const NOW = Date.UTC(2024, 5, 1);
+
+const word: WordItem = {
+    id: 'w1',
+    text: '葡萄, "紫色"',
+    groupTitle: '第一单元',
+    addedAt: NOW - 1000,
+    lastReviewed: NOW,
+    nextReview: NOW + 1000,
+    streak: 2,
+    easeFactor: 2.6,
+    interval: 14,
+    algorithm: SchedulerAlgorithm.MASTERY,
+    stability: 0,
+    difficulty: 0,
+    suspended: false,
+    totalAttempts: 3,
+    totalWrong: 1,
+    lastWrongAt: null,
+    updatedAt: NOW,
+};
+
+test.describe('csvService', () => {
+    test('parses quoted cells with delimiters, quotes and line breaks', () => {
+        const rows = parseDelimited('词语,词库\r\n"苹果,香蕉","第""一""单元"\r\n"多\n行",x\r\n\r\n', ',');
+        expect(rows).toEqual([['词语', '词库'], ['苹果,香蕉', '第"一"单元'], ['多\n行', 'x']]);
+    });
+
+    test('decodes UTF-8 with BOM and falls back to GBK', () => {
+        const utf8 = new Uint8Array([0xef, 0xbb, 0xbf, ...new TextEncoder().encode('苹果')]);
+        expect(decodeText(utf8.buffer)).toBe('苹果');
+        // "苹果" in GBK
+        expect(decodeText(new Uint8Array([0xc6, 0xbb, 0xb9, 0xfb]).buffer)).toBe('苹果');
+    });
+
+    test('round-trips words through CSV with the generated header', () => {
+        const text = wordsToTable([word], 'CSV');
+        const rows = parseDelimited(decodeText(new TextEncoder().encode(text).buffer), detectDelimiter(text));
+        const { mapping, hasHeader } = guessColumnMapping(rows[0]);
+        expect(hasHeader).toBe(true);
+
+        const { words, repairedCount } = validateWords(rowsToWordRecords(rows.slice(1), mapping, '默认', NOW), NOW);
+        expect(repairedCount).toBe(0);
+        expect({ ...words[0], id: word.id }).toEqual(word);
+    });
+
+    test('reads an Anki text export as word and group', () => {
+        const text = wordsToTable([word], 'ANKI');
+        expect(detectDelimiter(text)).toBe('\t');
+        const rows = parseDelimited(text, '\t');
+        const { mapping, hasHeader } = guessColumnMapping(rows[0]);
+        expect(hasHeader).toBe(false);
+        expect(rowsToWordRecords(rows, mapping, '默认', NOW)[0]).toMatchObject({ text: word.text, groupTitle: '第一单元' });
+    });
+});
@@ -0,0 +1,107 @@
+import { test, expect } from '@playwright/test';
+import {
+    bindMediaSession, commandForKey, createSilentAudio, mediaMetadataFor, runDictationCommand, silentWavDataUri, DictationCommand
+} from '../services/dictationControls';
+import { dictationReducer, DictationEngine, DictationPhase, INITIAL_DICTATION_STATE } from '../services/dictationEngine';
+
+const key = (value: string, modifiers: Partial<Record<'ctrlKey' | 'altKey' | 'metaKey', boolean>> = {}) => ({
+    key: value, ctrlKey: false, altKey: false, metaKey: false, ...modifiers,
+});
+
+// Records which engine methods were called
+const createEngineSpy = (phase: DictationPhase) => {
+    const calls: string[] = [];
+    const record = (name: string) => () => { calls.push(name); };
+    const engine: DictationEngine = {
+        start: record('start'), pause: record('pause'), resume: record('resume'), skip: record('skip'),
+        previous: record('previous'), jump: record('jump'), replay: record('replay'), finish: record('finish'),
+        retry: record('retry'), destroy: record('destroy'),
+        getState: () => ({ ...INITIAL_DICTATION_STATE, phase }),
+    };
+    return { engine, calls };
+};
+
+test.describe('dictationControls', () => {
+    test('maps keys to commands and leaves browser shortcuts alone', () => {
+        expect(commandForKey(key(' '))).toBe('TOGGLE_PAUSE');
+        expect(commandForKey(key('r'))).toBe('REPLAY');
+        expect(commandForKey(key('R'))).toBe('REPLAY');
+        expect(commandForKey(key('ArrowRight'))).toBe('SKIP');
+        expect(commandForKey(key('Escape'))).toBe('FINISH');
+        expect(commandForKey(key('r', { ctrlKey: true }))).toBeNull();
+        expect(commandForKey(key('a'))).toBeNull();
+    });
+
+    test('toggles pause by the current phase and runs the other commands', () => {
+        const waiting = createEngineSpy('WAITING');
+        for (const command of ['TOGGLE_PAUSE', 'REPLAY', 'SKIP', 'PREVIOUS', 'FINISH'] as DictationCommand[]) {
+            runDictationCommand(waiting.engine, command);
+        }
+        expect(waiting.calls).toEqual(['pause', 'replay', 'skip', 'previous', 'finish']);
+
+        const paused = createEngineSpy('PAUSED');
+        runDictationCommand(paused.engine, 'TOGGLE_PAUSE');
+        runDictationCommand(paused.engine, 'PAUSE');
+        runDictationCommand(paused.engine, 'RESUME');
+        expect(paused.calls).toEqual(['resume', 'pause', 'resume']);
+
+        // Pausing a paused dictation leaves it paused
+        const pausedState = { ...INITIAL_DICTATION_STATE, phase: 'PAUSED' as const, pausedPhase: 'WAITING' as const };
+        expect(dictationReducer(pausedState, { type: 'PAUSE', at: 0 }, { wordCount: 3, autoRepeat: 1, writingTime: () => 0, replayExtension: 0 })).toBe(pausedState);
+    });
+
+    test('binds headset buttons and removes them again', () => {
+        const handlers = new Map<string, (() => void) | null>();
+        const mediaSession = {
+            metadata: null,
+            playbackState: 'playing',
+            setActionHandler: (action: string, handler: (() => void) | null) => {
+                if (action === 'previoustrack') throw new Error('unsupported');
+                handlers.set(action, handler);
+            },
+        } as unknown as MediaSession;
+        const commands: DictationCommand[] = [];
+
+        const unbind = bindMediaSession(command => commands.push(command), mediaSession);
+        handlers.get('pause')!();
+        handlers.get('play')!();
+        handlers.get('nexttrack')!();
+        expect(commands).toEqual(['PAUSE', 'RESUME', 'SKIP']);
+
+        unbind();
+        expect([...handlers.values()].every(handler => handler === null)).toBe(true);
+        expect(mediaSession.playbackState).toBe('none');
+    });
+
+    test('shows the position but not the word on the lock screen', () => {
+        const state = { ...INITIAL_DICTATION_STATE, phase: 'WAITING' as const, index: 1 };
+        expect(mediaMetadataFor(state, 3)).toEqual({ title: '第 2 / 3 个', artist: '请写下来', album: '智能听写小助手' });
+        expect(mediaMetadataFor({ ...state, phase: 'DONE', index: 3 }, 3).title).toBe('第 3 / 3 个');
+    });
+
+    test('loops five seconds of silence while the dictation runs', async () => {
+        const wav = Buffer.from(silentWavDataUri(5, 8000).split(',')[1], 'base64');
+        expect(wav.subarray(0, 4).toString()).toBe('RIFF');
+        expect(wav.subarray(8, 12).toString()).toBe('WAVE');
+        expect(wav.readUInt32LE(40)).toBe(40000);
+        expect(wav.length).toBe(44 + 40000);
+        expect(wav.subarray(44).every(sample => sample === 128)).toBe(true);
+
+        const calls: string[] = [];
+        const audio = {
+            src: '', loop: false, paused: true,
+            play: () => { calls.push('play'); audio.paused = false; return Promise.reject(new Error('NotAllowedError')); },
+            pause: () => { calls.push('pause'); audio.paused = true; },
+            removeAttribute: () => undefined,
+            load: () => undefined,
+        };
+        const silentAudio = createSilentAudio(audio as unknown as HTMLAudioElement);
+        expect(audio.loop).toBe(true);
+        silentAudio.setPlaying(true);
+        silentAudio.setPlaying(true);
+        silentAudio.setPlaying(false);
+        // A refused playback is not an error
+        await new Promise(resolve => setImmediate(resolve));
+        expect(calls).toEqual(['play', 'pause']);
+    });
+});
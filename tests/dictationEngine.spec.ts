@@ -0,0 +1,290 @@
+import { test, expect } from '@playwright/test';
+import {
+    createDictationEngine, dictationReducer, orderWords, writingSeconds,
+    DictationConfig, DictationEvent, DictationState, EngineClock, INITIAL_DICTATION_STATE, LEAD_IN_MS, REPEAT_GAP_MS
+} from '../services/dictationEngine';
+import { PlaybackOrder, WordItem } from '../types';
+import { createWord } from './fixtures';
+
+const makeWord = (id: string, text: string): WordItem => createWord({ id, text });
+
+const WORDS = [makeWord('w1', '葡萄'), makeWord('w2', '苹果'), makeWord('w3', '西瓜')];
+const CONFIG: DictationConfig = { wordCount: 3, autoRepeat: 2, writingTime: () => 4000, replayExtension: 2000 };
+
+const run = (events: DictationEvent[], config: DictationConfig = CONFIG, from: DictationState = INITIAL_DICTATION_STATE) =>
+    events.reduce((state, event) => dictationReducer(state, event, config), from);
+
+// Timers fire only when the test moves the clock on
+const createFakeClock = () => {
+    let now = 0;
+    let nextId = 1;
+    const timers = new Map<number, { at: number; callback: () => void }>();
+    const clock = {
+        now: () => now,
+        setTimeout: (callback: () => void, ms: number) => {
+            timers.set(nextId, { at: now + ms, callback });
+            return nextId++;
+        },
+        clearTimeout: (handle: number) => { timers.delete(handle); },
+    } as unknown as EngineClock;
+
+    const flush = () => new Promise<void>(resolve => setImmediate(resolve));
+    const advance = async (ms: number) => {
+        const end = now + ms;
+        await flush();
+        for (;;) {
+            const due = [...timers.entries()].filter(([, t]) => t.at <= end).sort((a, b) => a[1].at - b[1].at)[0];
+            if (!due) break;
+            timers.delete(due[0]);
+            now = due[1].at;
+            due[1].callback();
+            await flush();
+        }
+        now = end;
+    };
+    return { clock, advance, flush };
+};
+
+// Readings end when the test says so
+const createFakeSpeech = () => {
+    const spoken: string[] = [];
+    const pending: { resolve: () => void; reject: (err: Error) => void }[] = [];
+    let cancelled = 0;
+    const speech = {
+        warmup: () => Promise.resolve(),
+        speak: (text: string) => new Promise<void>((resolve, reject) => {
+            spoken.push(text);
+            pending.push({ resolve, reject });
+        }),
+        cancel: () => { cancelled++; },
+    };
+    const endReading = () => pending.shift()!.resolve();
+    return { speech, spoken, pending, endReading, cancelledCount: () => cancelled };
+};
+
+test.describe('dictationEngine', () => {
+    test('starts with the first word, or finishes right away without words', () => {
+        expect(run([{ type: 'START' }])).toMatchObject({ phase: 'PLAYING', index: 0, repeat: 0, played: [] });
+        expect(run([{ type: 'START' }], { ...CONFIG, wordCount: 0 })).toMatchObject({ phase: 'DONE', index: 0, played: [] });
+        // START only applies once
+        const playing = run([{ type: 'START' }]);
+        expect(dictationReducer(playing, { type: 'START' }, CONFIG)).toBe(playing);
+    });
+
+    test('repeats a word, waits for writing and moves on', () => {
+        const repeated = run([{ type: 'START' }, { type: 'SPOKEN', at: 1000 }]);
+        expect(repeated).toMatchObject({ phase: 'PLAYING', index: 0, repeat: 1, played: [0] });
+
+        const waiting = run([{ type: 'SPOKEN', at: 2000 }], CONFIG, repeated);
+        expect(waiting).toMatchObject({ phase: 'WAITING', index: 0, repeat: 0, waitEndsAt: 6000, timeLeft: 4 });
+
+        expect(run([{ type: 'TICK', at: 3500 }], CONFIG, waiting)).toMatchObject({ phase: 'WAITING', timeLeft: 3 });
+        expect(run([{ type: 'TICK', at: 6000 }], CONFIG, waiting)).toMatchObject({ phase: 'PLAYING', index: 1, repeat: 0, played: [0] });
+        // Ticks only count while waiting
+        expect(dictationReducer(repeated, { type: 'TICK', at: 9000 }, CONFIG)).toBe(repeated);
+
+        const last = run([{ type: 'SKIP' }, { type: 'SKIP' }, { type: 'SPOKEN', at: 0 }, { type: 'SPOKEN', at: 0 }, { type: 'TICK', at: 4000 }], CONFIG, waiting);
+        // The skipped second word was never read out
+        expect(last).toMatchObject({ phase: 'DONE', index: 3, played: [0, 2] });
+    });
+
+    test('pauses and resumes while reading and while waiting', () => {
+        const playing = run([{ type: 'START' }, { type: 'SPOKEN', at: 0 }]);
+        const pausedReading = run([{ type: 'PAUSE', at: 500 }], CONFIG, playing);
+        expect(pausedReading).toMatchObject({ phase: 'PAUSED', pausedPhase: 'PLAYING' });
+        // The interrupted reading starts over
+        expect(run([{ type: 'RESUME', at: 9000 }], CONFIG, pausedReading)).toMatchObject({ phase: 'PLAYING', index: 0, repeat: 1, pausedPhase: null });
+
+        const waiting = run([{ type: 'SPOKEN', at: 1000 }], CONFIG, playing);
+        const pausedWaiting = run([{ type: 'PAUSE', at: 2500 }], CONFIG, waiting);
+        expect(pausedWaiting).toMatchObject({ phase: 'PAUSED', pausedPhase: 'WAITING', waitLeftMs: 2500, timeLeft: 3 });
+        // Time spent paused does not count
+        expect(dictationReducer(pausedWaiting, { type: 'TICK', at: 60000 }, CONFIG)).toBe(pausedWaiting);
+        const resumed = run([{ type: 'RESUME', at: 60000 }], CONFIG, pausedWaiting);
+        expect(resumed).toMatchObject({ phase: 'WAITING', waitEndsAt: 62500 });
+
+        expect(dictationReducer(resumed, { type: 'RESUME', at: 0 }, CONFIG)).toBe(resumed);
+        expect(dictationReducer(INITIAL_DICTATION_STATE, { type: 'PAUSE', at: 0 }, CONFIG)).toBe(INITIAL_DICTATION_STATE);
+    });
+
+    test('skips ahead and goes back without losing the words played', () => {
+        const third = run([{ type: 'START' }, { type: 'SPOKEN', at: 0 }, { type: 'SKIP' }, { type: 'SKIP' }]);
+        expect(third).toMatchObject({ phase: 'PLAYING', index: 2, played: [0] });
+
+        // Only going back to the word read out counts as hearing it again
+        const back = run([{ type: 'PREVIOUS' }, { type: 'PREVIOUS' }], CONFIG, third);
+        expect(back).toMatchObject({ phase: 'PLAYING', index: 0, repeat: 0, played: [0], replays: { 0: 1 } });
+        expect(dictationReducer(back, { type: 'PREVIOUS' }, CONFIG)).toBe(back);
+
+        // Skipping a paused word plays the next one
+        const paused = run([{ type: 'PAUSE', at: 0 }, { type: 'SKIP' }], CONFIG, back);
+        expect(paused).toMatchObject({ phase: 'PLAYING', index: 1, pausedPhase: null });
+        expect(run([{ type: 'SKIP' }, { type: 'SKIP' }], CONFIG, third)).toMatchObject({ phase: 'DONE', index: 3 });
+    });
+
+    test('finishes early, and retries a failed reading', () => {
+        const finished = run([{ type: 'START' }, { type: 'SPOKEN', at: 0 }, { type: 'SKIP' }, { type: 'FINISH' }]);
+        expect(finished).toMatchObject({ phase: 'DONE', index: 1, played: [0] });
+        for (const type of ['SKIP', 'PREVIOUS', 'FINISH', 'RETRY'] as const) {
+            expect(dictationReducer(finished, { type }, CONFIG)).toBe(finished);
+        }
+
+        const failed = run([{ type: 'START' }, { type: 'SPOKEN', at: 0 }, { type: 'FAIL', message: '未找到可用的语音' }]);
+        expect(failed).toMatchObject({ phase: 'ERROR', index: 0, error: '未找到可用的语音' });
+        expect(run([{ type: 'RETRY' }], CONFIG, failed)).toMatchObject({ phase: 'PLAYING', index: 0, repeat: 0, error: null });
+        expect(run([{ type: 'SKIP' }], CONFIG, failed)).toMatchObject({ phase: 'PLAYING', index: 1, error: null });
+    });
+
+    test('continues an interrupted dictation where it left off', () => {
+        expect(run([{ type: 'START', index: 1, played: [0, 2] }])).toMatchObject({ phase: 'PLAYING', index: 1, repeat: 0, played: [0, 2] });
+        // Stopped after the last word was read
+        expect(run([{ type: 'START', index: 3, played: [0, 1, 2] }])).toMatchObject({ phase: 'DONE', played: [0, 1, 2] });
+        expect(run([{ type: 'START', index: 1, played: [0], replays: { 0: 2 } }]).replays).toEqual({ 0: 2 });
+    });
+
+    test('replays a word while waiting and counts every extra hearing', () => {
+        const waiting = run([{ type: 'START' }, { type: 'SPOKEN', at: 0 }, { type: 'SPOKEN', at: 1000 }]);
+        // The countdown goes on, extended by two seconds
+        const replayed = run([{ type: 'REPLAY', at: 3000 }], CONFIG, waiting);
+        expect(replayed).toMatchObject({ phase: 'WAITING', index: 0, waitEndsAt: 7000, timeLeft: 4, replays: { 0: 1 } });
+        expect(run([{ type: 'REPLAY', at: 3000 }], { ...CONFIG, replayExtension: 0 }, waiting)).toMatchObject({ waitEndsAt: 5000, timeLeft: 2 });
+        // Only while the child writes
+        const playing = run([{ type: 'START' }]);
+        expect(dictationReducer(playing, { type: 'REPLAY', at: 0 }, CONFIG)).toBe(playing);
+
+        // Jumping ahead leaves the word in between unplayed
+        const third = run([{ type: 'JUMP', index: 2 }], CONFIG, replayed);
+        expect(third).toMatchObject({ phase: 'PLAYING', index: 2, played: [0], replays: { 0: 1 } });
+        // Going back to the skipped word is its first hearing, going back to the played one a replay
+        const back = run([{ type: 'PREVIOUS' }, { type: 'JUMP', index: 0 }], CONFIG, third);
+        expect(back).toMatchObject({ phase: 'PLAYING', index: 0, played: [0], replays: { 0: 2 } });
+        expect(dictationReducer(back, { type: 'JUMP', index: 0 }, CONFIG)).toBe(back);
+        expect(dictationReducer(back, { type: 'JUMP', index: 3 }, CONFIG)).toBe(back);
+    });
+
+    test('runs a whole dictation on the injected clock and speech', async () => {
+        const { clock, advance } = createFakeClock();
+        const { speech, spoken, endReading } = createFakeSpeech();
+        const states: DictationState[] = [];
+        const engine = createDictationEngine({
+            words: WORDS.slice(0, 2), autoRepeat: 2, writingTime: () => 2000, clock, speech, onChange: s => states.push(s),
+        });
+
+        engine.start();
+        await advance(LEAD_IN_MS);
+        expect(spoken).toEqual(['葡萄']);
+        endReading();
+        await advance(REPEAT_GAP_MS);
+        expect(spoken).toEqual(['葡萄', '葡萄']);
+        endReading();
+        await advance(0);
+        expect(engine.getState()).toMatchObject({ phase: 'WAITING', timeLeft: 2 });
+        await advance(1000);
+        expect(engine.getState()).toMatchObject({ phase: 'WAITING', timeLeft: 1 });
+        await advance(1000 + LEAD_IN_MS);
+        expect(engine.getState()).toMatchObject({ phase: 'PLAYING', index: 1 });
+        expect(spoken).toEqual(['葡萄', '葡萄', '苹果']);
+
+        endReading();
+        await advance(REPEAT_GAP_MS);
+        endReading();
+        await advance(2000);
+        expect(engine.getState()).toMatchObject({ phase: 'DONE', played: [0, 1] });
+        expect(states.filter(s => s.phase === 'DONE')).toHaveLength(1);
+    });
+
+    test('ignores readings and timers of a word that was skipped or paused', async () => {
+        const { clock, advance } = createFakeClock();
+        const { speech, spoken, pending, cancelledCount } = createFakeSpeech();
+        const engine = createDictationEngine({ words: WORDS, autoRepeat: 1, writingTime: () => 3000, clock, speech, onChange: () => undefined });
+
+        engine.start();
+        await advance(LEAD_IN_MS);
+        engine.skip();
+        expect(cancelledCount()).toBe(1);
+        // The cancelled reading of the first word ends late
+        pending.shift()!.resolve();
+        await advance(LEAD_IN_MS);
+        expect(engine.getState()).toMatchObject({ phase: 'PLAYING', index: 1 });
+        expect(spoken).toEqual(['葡萄', '苹果']);
+
+        pending.shift()!.resolve();
+        await advance(1000);
+        engine.pause();
+        await advance(60000);
+        expect(engine.getState()).toMatchObject({ phase: 'PAUSED', index: 1, timeLeft: 2 });
+        engine.resume();
+        await advance(1999);
+        expect(engine.getState()).toMatchObject({ phase: 'WAITING', index: 1 });
+        // Skipping the wait moves on exactly one word
+        engine.skip();
+        await advance(5000);
+        expect(engine.getState()).toMatchObject({ phase: 'PLAYING', index: 2 });
+
+        engine.destroy();
+        pending.shift()!.resolve();
+        await advance(10000);
+        expect(engine.getState()).toMatchObject({ phase: 'PLAYING', index: 2 });
+        engine.finish();
+        expect(engine.getState().phase).toBe('PLAYING');
+    });
+
+    test('reads the word again without restarting the countdown', async () => {
+        const { clock, advance } = createFakeClock();
+        const { speech, spoken, pending, endReading, cancelledCount } = createFakeSpeech();
+        const engine = createDictationEngine({
+            words: WORDS, autoRepeat: 1, writingTime: () => 3000, replayExtension: 1000, clock, speech, onChange: () => undefined,
+        });
+
+        engine.start();
+        await advance(LEAD_IN_MS);
+        endReading();
+        await advance(2000);
+        engine.replay();
+        expect(spoken).toEqual(['葡萄', '葡萄']);
+        expect(engine.getState()).toMatchObject({ phase: 'WAITING', index: 0, timeLeft: 2, replays: { 0: 1 } });
+        // The end of the replay does not move the dictation on
+        endReading();
+        await advance(1999);
+        expect(engine.getState()).toMatchObject({ phase: 'WAITING', index: 0 });
+        await advance(1);
+        expect(engine.getState()).toMatchObject({ phase: 'PLAYING', index: 1 });
+
+        // A replay still going is cut off by the next word
+        await advance(LEAD_IN_MS);
+        endReading();
+        await advance(0);
+        engine.replay();
+        const cancelled = cancelledCount();
+        engine.skip();
+        expect(cancelledCount()).toBe(cancelled + 1);
+        expect(pending).toHaveLength(1);
+    });
+
+    test('reports failed readings', async () => {
+        const { clock, advance } = createFakeClock();
+        const { speech, pending } = createFakeSpeech();
+        const engine = createDictationEngine({ words: WORDS, autoRepeat: 1, writingTime: () => 1000, clock, speech, onChange: () => undefined });
+
+        engine.start();
+        await advance(LEAD_IN_MS);
+        pending.shift()!.reject(new Error('未找到可用的语音'));
+        await advance(0);
+        expect(engine.getState()).toMatchObject({ phase: 'ERROR', error: '未找到可用的语音' });
+        engine.retry();
+        await advance(LEAD_IN_MS);
+        expect(engine.getState()).toMatchObject({ phase: 'PLAYING', index: 0, error: null });
+        expect(pending).toHaveLength(1);
+    });
+
+    test('orders the queue and sizes the writing time', () => {
+        expect(orderWords(WORDS, PlaybackOrder.SEQUENTIAL).map(w => w.id)).toEqual(['w1', 'w2', 'w3']);
+        expect(orderWords(WORDS, PlaybackOrder.REVERSE).map(w => w.id)).toEqual(['w3', 'w2', 'w1']);
+        expect(orderWords(WORDS, PlaybackOrder.SHUFFLE, () => 0).map(w => w.id)).toEqual(['w2', 'w3', 'w1']);
+        expect(WORDS.map(w => w.id)).toEqual(['w1', 'w2', 'w3']);
+
+        expect(writingSeconds('葡萄', 2)).toBe(4);
+        expect(writingSeconds('apple', 2)).toBe(5);
+        expect(writingSeconds('!', 2)).toBe(1);
+    });
+});
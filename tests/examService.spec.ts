@@ -0,0 +1,63 @@
+import { test, expect } from '@playwright/test';
+import { applyExamSchedule, daysUntilExam, getUpcomingExam } from '../services/examService';
+import { toDateKey } from '../services/planService';
+import { validateSettings } from '../services/schemaService';
+import { WordItem } from '../types';
+import { createWord } from './fixtures';
+
+// Midday local time, so "today" does not depend on the time zone
+const NOW = new Date(2024, 5, 1, 12).getTime();
+const ONE_DAY = 24 * 60 * 60 * 1000;
+const SETTINGS = { examDates: { '第一单元': '2024-06-10' }, examReviewCount: 3 };
+
+const makeWord = (overrides: Partial<WordItem> = {}): WordItem => createWord({
+    addedAt: NOW - 30 * ONE_DAY,
+    lastReviewed: NOW,
+    nextReview: NOW + 30 * ONE_DAY,
+    streak: 4,
+    interval: 30,
+    totalAttempts: 4,
+    updatedAt: NOW,
+    ...overrides,
+});
+
+// Local day the word is due on
+const dueDay = (word: WordItem) => toDateKey(word.nextReview);
+
+test.describe('examService', () => {
+    test('spreads reviews over the days before the exam', () => {
+        expect(daysUntilExam('2024-06-10', NOW)).toBe(9);
+        expect(getUpcomingExam(SETTINGS, '第一单元', NOW)).toBe('2024-06-10');
+        expect(getUpcomingExam(SETTINGS, '第二单元', NOW)).toBeNull();
+
+        // 9 days left, 3 reviews: two days to the first one, then daily up to
+        // the exam day as the days left get fewer
+        const days: string[] = [];
+        let word = makeWord();
+        for (let now = NOW; daysUntilExam('2024-06-10', now) > 0; now = word.nextReview + 12 * 60 * 60 * 1000) {
+            word = applyExamSchedule({ ...word, lastReviewed: now, nextReview: now + 30 * ONE_DAY }, SETTINGS, now);
+            days.push(dueDay(word));
+        }
+        expect(days).toEqual(['2024-06-03', '2024-06-04', '2024-06-05', '2024-06-06', '2024-06-07', '2024-06-08', '2024-06-09', '2024-06-10']);
+        expect(word.interval).toBe(30);
+
+        // Missed words come up daily
+        expect(dueDay(applyExamSchedule(makeWord({ totalWrong: 3 }), SETTINGS, NOW))).toBe('2024-06-02');
+    });
+
+    test('leaves words alone on and after the exam day and when due sooner', () => {
+        const word = makeWord();
+        expect(applyExamSchedule(word, SETTINGS, new Date(2024, 5, 10, 8).getTime())).toBe(word);
+        expect(applyExamSchedule(word, SETTINGS, new Date(2024, 5, 11, 8).getTime())).toBe(word);
+        expect(applyExamSchedule(word, { ...SETTINGS, examDates: {} }, NOW)).toBe(word);
+
+        const soon = makeWord({ nextReview: NOW + ONE_DAY / 2 });
+        expect(applyExamSchedule(soon, SETTINGS, NOW)).toBe(soon);
+    });
+
+    test('validates exam dates in settings', () => {
+        const { settings, issues } = validateSettings({ examDates: { '第一单元': '2024-06-10', '第二单元': 'tomorrow' }, examReviewCount: 20 });
+        expect(settings).toEqual({ examDates: { '第一单元': '2024-06-10' }, examReviewCount: 10 });
+        expect(issues).toHaveLength(2);
+    });
+});
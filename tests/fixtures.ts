@@ -0,0 +1,23 @@
+import { SchedulerAlgorithm, WordItem } from '../types';
+
+// A new, never reviewed word; specs override the fields they care about
+export const createWord = (overrides: Partial<WordItem> = {}): WordItem => ({
+    id: 'w1',
+    text: '葡萄',
+    groupTitle: '第一单元',
+    addedAt: 0,
+    lastReviewed: null,
+    nextReview: 0,
+    streak: 0,
+    easeFactor: 2.5,
+    interval: 0,
+    algorithm: SchedulerAlgorithm.MASTERY,
+    stability: 0,
+    difficulty: 0,
+    suspended: false,
+    totalAttempts: 0,
+    totalWrong: 0,
+    lastWrongAt: null,
+    updatedAt: 0,
+    ...overrides,
+});
@@ -0,0 +1,37 @@
+import { test, expect } from '@playwright/test';
+import { isLeech, leechPracticeSettings } from '../services/leechService';
+import { updateDailyPlan } from '../services/planService';
+import { DEFAULT_SETTINGS, WordItem } from '../types';
+import { createWord } from './fixtures';
+
+const NOW = new Date(2024, 5, 1, 12).getTime();
+
+const makeWord = (overrides: Partial<WordItem> = {}): WordItem => createWord({
+    addedAt: NOW - 10000,
+    lastReviewed: NOW - 24 * 60 * 60 * 1000,
+    nextReview: NOW - 1000,
+    easeFactor: 1.3,
+    totalAttempts: 6,
+    totalWrong: 4,
+    lastWrongAt: NOW - 5000,
+    updatedAt: NOW - 5000,
+    ...overrides,
+});
+
+test.describe('leechService', () => {
+    test('detects leeches by wrong count and wrong rate', () => {
+        const limits = { leechThreshold: 4, leechWrongRate: 50 };
+        expect(isLeech(makeWord(), limits)).toBe(true);
+        // Not missed often enough yet
+        expect(isLeech(makeWord({ totalWrong: 3, totalAttempts: 3 }), limits)).toBe(false);
+        // Recovered after many correct answers
+        expect(isLeech(makeWord({ totalAttempts: 9 }), limits)).toBe(false);
+    });
+
+    test('practises slower and keeps suspended words out of the daily plan', () => {
+        expect(leechPracticeSettings(DEFAULT_SETTINGS)).toMatchObject({ autoRepeat: 3, perCharInterval: DEFAULT_SETTINGS.perCharInterval * 1.5 });
+
+        const words = [makeWord(), makeWord({ id: 'w2', suspended: true })];
+        expect(updateDailyPlan(null, words, DEFAULT_SETTINGS, NOW).reviewIds).toEqual(['w1']);
+    });
+});
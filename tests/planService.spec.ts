@@ -0,0 +1,81 @@
+import { test, expect } from '@playwright/test';
+import { updateDailyPlan, getPlanProgress, toDateKey, buildForecast, pullIntoPlan } from '../services/planService';
+import { WordItem } from '../types';
+import { createWord } from './fixtures';
+
+// Midday local time, so "today" does not depend on the time zone
+const NOW = new Date(2024, 5, 1, 12).getTime();
+const ONE_DAY = 24 * 60 * 60 * 1000;
+const LIMITS = { dailyReviewLimit: 2, dailyNewLimit: 1 };
+
+const makeWord = (id: string, overrides: Partial<WordItem> = {}): WordItem => createWord({
+    id,
+    text: id,
+    addedAt: NOW - 30 * ONE_DAY,
+    lastReviewed: NOW - 20 * ONE_DAY,
+    nextReview: NOW - ONE_DAY,
+    streak: 1,
+    interval: 1,
+    totalAttempts: 1,
+    updatedAt: NOW - 20 * ONE_DAY,
+    ...overrides,
+});
+
+const words = [
+    makeWord('due-1-day'),
+    makeWord('due-5-days', { nextReview: NOW - 5 * ONE_DAY }),
+    makeWord('missed-3-times', { totalWrong: 3 }),
+    makeWord('not-due', { nextReview: NOW + ONE_DAY }),
+    makeWord('new-old', { lastReviewed: null, addedAt: NOW - 2 * ONE_DAY }),
+    makeWord('new-recent', { lastReviewed: null, addedAt: NOW - ONE_DAY }),
+];
+
+test.describe('planService', () => {
+    test('picks the most overdue and most missed words up to the limits', () => {
+        const plan = updateDailyPlan(null, words, LIMITS, NOW);
+        expect(plan).toEqual({ date: toDateKey(NOW), reviewIds: ['missed-3-times', 'due-5-days'], newIds: ['new-old'] });
+
+        const progress = getPlanProgress(plan, words, LIMITS, NOW);
+        expect(progress).toMatchObject({ reviewTotal: 2, reviewDone: 0, newTotal: 1, backlog: 1, backlogDays: 1 });
+        expect(progress.remaining.map(w => w.id)).toEqual(['missed-3-times', 'due-5-days', 'new-old']);
+    });
+
+    test('keeps progress across sessions of the same day', () => {
+        const plan = updateDailyPlan(null, words, LIMITS, NOW);
+        // One word done in a first short session, wrong, so it is due again
+        const later = words.map(w => w.id === 'due-5-days' ? { ...w, lastReviewed: NOW + 1000, nextReview: NOW + 1000, interval: 0 } : w);
+
+        expect(updateDailyPlan(plan, later, LIMITS, NOW + 2000)).toBe(plan);
+        const progress = getPlanProgress(plan, later, LIMITS, NOW + 2000);
+        expect(progress).toMatchObject({ reviewDone: 1, newDone: 0 });
+        expect(progress.remaining.map(w => w.id)).toEqual(['missed-3-times', 'new-old']);
+    });
+
+    test('tops up during the day and starts over the next day', () => {
+        const plan = updateDailyPlan(null, words, { dailyReviewLimit: 10, dailyNewLimit: 1 }, NOW);
+        expect(plan.reviewIds).toHaveLength(3);
+
+        const withDeleted = words.filter(w => w.id !== 'new-old');
+        const toppedUp = updateDailyPlan(plan, withDeleted, { dailyReviewLimit: 10, dailyNewLimit: 1 }, NOW);
+        expect(toppedUp.newIds).toEqual(['new-recent']);
+
+        const tomorrow = updateDailyPlan(plan, words, LIMITS, NOW + ONE_DAY);
+        expect(tomorrow.date).toBe(toDateKey(NOW + ONE_DAY));
+        expect(tomorrow.reviewIds).toHaveLength(2);
+    });
+
+    test('forecasts due words per day and pulls a day into today', () => {
+        const forecast = buildForecast(words, 30, NOW);
+        expect(forecast).toHaveLength(30);
+        expect(forecast[0].date).toBe(toDateKey(NOW));
+        // Overdue and new words are due today
+        expect(forecast[0].words.map(w => w.id)).toEqual(['due-1-day', 'due-5-days', 'missed-3-times', 'new-old', 'new-recent']);
+        expect(forecast[1].words.map(w => w.id)).toEqual(['not-due']);
+
+        const plan = updateDailyPlan(null, words, LIMITS, NOW);
+        const pulled = pullIntoPlan(plan, ['not-due', 'new-old']);
+        expect(pulled.reviewIds).toEqual(['missed-3-times', 'due-5-days', 'not-due']);
+        expect(updateDailyPlan(pulled, words, LIMITS, NOW)).toBe(pulled);
+        expect(getPlanProgress(pulled, words, LIMITS, NOW).remaining).toHaveLength(4);
+    });
+});
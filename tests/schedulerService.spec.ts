@@ -0,0 +1,85 @@
+import { test, expect } from '@playwright/test';
+import { scheduleReview, switchAlgorithm } from '../services/schedulerService';
+import { ReviewGrade, SchedulerAlgorithm, WordItem } from '../types';
+import { createWord } from './fixtures';
+
+const NOW = Date.UTC(2024, 5, 1);
+const ONE_DAY = 24 * 60 * 60 * 1000;
+
+const newWord = createWord({ addedAt: NOW - ONE_DAY, nextReview: NOW - ONE_DAY, updatedAt: NOW - ONE_DAY });
+
+// Review a word with a series of results, one per given day
+const reviewDays = (word: WordItem, algorithm: SchedulerAlgorithm, results: [number, ReviewGrade][]) =>
+    results.reduce((current, [day, grade]) => scheduleReview(current, grade, algorithm, NOW + day * ONE_DAY), word);
+
+test.describe('schedulerService', () => {
+    test('keeps the mastered / not mastered rule', () => {
+        const correct = scheduleReview(newWord, ReviewGrade.CORRECT, SchedulerAlgorithm.MASTERY, NOW);
+        expect(correct).toMatchObject({ streak: 10, interval: 14, nextReview: NOW + 14 * ONE_DAY, totalAttempts: 1, totalWrong: 0 });
+
+        const wrong = scheduleReview(correct, ReviewGrade.WRONG, SchedulerAlgorithm.MASTERY, NOW + ONE_DAY);
+        expect(wrong).toMatchObject({ streak: 0, interval: 0, nextReview: NOW + ONE_DAY, totalAttempts: 2, totalWrong: 1, lastWrongAt: NOW + ONE_DAY });
+    });
+
+    test('follows SM-2 intervals and ease factor', () => {
+        const word = reviewDays(newWord, SchedulerAlgorithm.SM2, [[0, ReviewGrade.CORRECT], [1, ReviewGrade.CORRECT], [7, ReviewGrade.CORRECT]]);
+        // 1 day, 6 days, then 6 × 2.5
+        expect(word).toMatchObject({ algorithm: SchedulerAlgorithm.SM2, streak: 3, interval: 15 });
+        // Quality 4 leaves the ease factor unchanged
+        expect(word.easeFactor).toBeCloseTo(2.5);
+
+        const failed = scheduleReview(word, ReviewGrade.WRONG, SchedulerAlgorithm.SM2, NOW + 22 * ONE_DAY);
+        expect(failed).toMatchObject({ streak: 0, interval: 0, nextReview: NOW + 22 * ONE_DAY });
+        expect(failed.easeFactor).toBeCloseTo(1.96);
+        expect(scheduleReview(failed, ReviewGrade.CORRECT, SchedulerAlgorithm.SM2, NOW + 22 * ONE_DAY).interval).toBe(1);
+    });
+
+    test('grows FSRS stability with each successful recall', () => {
+        const first = scheduleReview(newWord, ReviewGrade.CORRECT, SchedulerAlgorithm.FSRS, NOW);
+        expect(first.stability).toBeCloseTo(3.7145);
+        expect(first.interval).toBe(4);
+
+        const second = scheduleReview(first, ReviewGrade.CORRECT, SchedulerAlgorithm.FSRS, first.nextReview);
+        expect(second.stability).toBeGreaterThan(first.stability * 2);
+        expect(second.interval).toBe(Math.round(second.stability));
+
+        const forgotten = scheduleReview(second, ReviewGrade.WRONG, SchedulerAlgorithm.FSRS, second.nextReview);
+        expect(forgotten).toMatchObject({ streak: 0, interval: 0, nextReview: second.nextReview });
+        expect(forgotten.stability).toBeLessThan(second.stability);
+        expect(forgotten.difficulty).toBeGreaterThan(second.difficulty);
+    });
+
+    test('uses the grade to pick the interval and ease factor', () => {
+        const reviewed = reviewDays(newWord, SchedulerAlgorithm.SM2, [[0, ReviewGrade.CORRECT], [1, ReviewGrade.CORRECT]]);
+        const next = (grade: ReviewGrade) => scheduleReview(reviewed, grade, SchedulerAlgorithm.SM2, NOW + 7 * ONE_DAY);
+        expect(next(ReviewGrade.PARTLY_WRONG)).toMatchObject({ interval: 0, totalWrong: 1 });
+        expect(next(ReviewGrade.PARTLY_WRONG).easeFactor).toBeGreaterThan(next(ReviewGrade.WRONG).easeFactor);
+        expect(next(ReviewGrade.HESITANT)).toMatchObject({ streak: 3, totalWrong: 0 });
+        expect(next(ReviewGrade.HESITANT).easeFactor).toBeLessThan(next(ReviewGrade.EASY).easeFactor);
+
+        const fsrsFirst = scheduleReview(newWord, ReviewGrade.CORRECT, SchedulerAlgorithm.FSRS, NOW);
+        const fsrsNext = (grade: ReviewGrade) => scheduleReview(fsrsFirst, grade, SchedulerAlgorithm.FSRS, fsrsFirst.nextReview).interval;
+        expect(fsrsNext(ReviewGrade.HESITANT)).toBeLessThan(fsrsNext(ReviewGrade.CORRECT));
+        expect(fsrsNext(ReviewGrade.CORRECT)).toBeLessThan(fsrsNext(ReviewGrade.EASY));
+
+        const mastery = (grade: ReviewGrade) => scheduleReview(newWord, grade, SchedulerAlgorithm.MASTERY, NOW);
+        expect(mastery(ReviewGrade.HESITANT)).toMatchObject({ interval: 7, streak: 1 });
+        expect(mastery(ReviewGrade.EASY)).toMatchObject({ interval: 30, streak: 10 });
+    });
+
+    test('carries existing intervals over when switching algorithms', () => {
+        const mastered = scheduleReview(newWord, ReviewGrade.CORRECT, SchedulerAlgorithm.MASTERY, NOW);
+        expect(switchAlgorithm(mastered, SchedulerAlgorithm.MASTERY, NOW)).toBe(mastered);
+
+        const fsrs = switchAlgorithm(mastered, SchedulerAlgorithm.FSRS, NOW + ONE_DAY);
+        expect(fsrs).toMatchObject({ algorithm: SchedulerAlgorithm.FSRS, stability: 14, nextReview: mastered.nextReview, updatedAt: NOW + ONE_DAY });
+        expect(fsrs.difficulty).toBeGreaterThanOrEqual(1);
+
+        // Reviewed on time, the next SM-2 interval builds on the 14 days
+        const sm2 = scheduleReview(mastered, ReviewGrade.CORRECT, SchedulerAlgorithm.SM2, mastered.nextReview);
+        expect(sm2.interval).toBe(Math.round(14 * mastered.easeFactor));
+
+        // Never reviewed words start fresh
+        expect(switchAlgorithm(newWord, SchedulerAlgorithm.FSRS, NOW)).toMatchObject({ stability: 0, difficulty: 0 });
+    });
+});
@@ -0,0 +1,124 @@
+import { test, expect } from '@playwright/test';
+import { migrateBackup, validateWords, validateSettings, validateActiveSession, parseBackup, createBackup, BackupData, SCHEMA_VERSION } from '../services/schemaService';
+import { planImport, findTargetProfile, remapReviewEvents } from '../services/importService';
+import { DEFAULT_SETTINGS, ImportMode, SessionSource, WordItem } from '../types';
+import { createWord } from './fixtures';
+
+const NOW = Date.UTC(2024, 5, 1);
+
+const makeWord = (overrides: Partial<WordItem> = {}): WordItem =>
+    createWord({ addedAt: NOW - 1000, nextReview: NOW, updatedAt: NOW - 1000, ...overrides });
+
+test.describe('schemaService', () => {
+    test('migrates v1 backups to the current schema', () => {
+        const migrated = migrateBackup({ version: 1, words: [{ id: 'a', text: '苹果', addedAt: NOW }] }) as unknown as BackupData;
+        expect(migrated.version).toBe(SCHEMA_VERSION);
+        expect(migrated.profiles).toHaveLength(1);
+        expect(migrated.profiles[0].words[0]).toMatchObject({ groupTitle: '默认词库', totalAttempts: 0, totalWrong: 0, lastWrongAt: null, updatedAt: NOW });
+    });
+
+    test('refuses data from a newer schema', () => {
+        expect(() => migrateBackup({ version: SCHEMA_VERSION + 1, profiles: [] })).toThrow();
+    });
+
+    test('keeps valid records untouched and reports repairs and rejections', () => {
+        const valid = makeWord();
+        const result = validateWords([
+            valid,
+            { ...makeWord({ id: 'w2' }), addedAt: 1704873600 }, // seconds instead of ms
+            { id: 'w3', text: '   ' },
+            makeWord(), // duplicate id
+        ], NOW);
+
+        expect(result.words[0]).toBe(valid);
+        expect(result.words).toHaveLength(3);
+        expect(result.repairedCount).toBe(2);
+        expect(result.rejectedCount).toBe(1);
+        expect(result.report.map(r => [r.index, r.action])).toEqual([[1, 'repaired'], [2, 'rejected'], [3, 'repaired']]);
+        expect(new Set(result.words.map(w => w.id)).size).toBe(3);
+    });
+
+    test('clamps settings into the allowed range', () => {
+        const { settings, issues } = validateSettings({ perCharInterval: 50, autoRepeat: 'x', order: 'RANDOM' });
+        expect(settings).toEqual({ perCharInterval: 10 });
+        expect(issues).toHaveLength(3);
+    });
+
+    test('keeps a well-formed interrupted dictation and drops a broken one', () => {
+        const session = {
+            id: 's1', source: SessionSource.GROUP, groupTitle: '第一单元', startedAt: NOW, step: 'DICTATION',
+            wordIds: ['w2', 'w1', 'w3'], index: 2, played: ['w2', 'w3'], replays: { w2: 1 }, settings: { autoRepeat: 3 }, savedAt: NOW,
+        };
+        expect(validateActiveSession(session)).toEqual({ ...session, settings: { ...DEFAULT_SETTINGS, autoRepeat: 3 } });
+        // Saved with a count of the words read
+        const { played: _played, ...counted } = session;
+        expect(validateActiveSession({ ...counted, reached: 2 })?.played).toEqual(['w2', 'w1']);
+        expect(validateActiveSession({ ...session, played: 2 })).toBeNull();
+        expect(validateActiveSession({ ...session, index: -1 })).toBeNull();
+        expect(validateActiveSession({ ...session, replays: { w2: 'x' } })).toBeNull();
+        expect(validateActiveSession({ ...session, step: 'PLAYING' })).toBeNull();
+        expect(validateActiveSession(undefined)).toBeNull();
+    });
+
+    test('parses a v1 backup file', () => {
+        const [backup] = parseBackup(JSON.stringify({ version: 1, words: [{ id: 'a', text: '苹果', addedAt: NOW, nextReview: NOW }] }));
+        expect(backup.words[0].groupTitle).toBe('默认词库');
+        expect(backup.settings).toBeNull();
+        expect(backup.profile).toBeNull();
+    });
+
+    test('round-trips a backup with several profiles', () => {
+        const profiles = [
+            { id: 'p1', name: '哥哥', avatar: null, createdAt: NOW },
+            { id: 'p2', name: '妹妹', avatar: null, createdAt: NOW + 1 },
+        ];
+        const backup = createBackup(profiles.map(profile => ({ profile, words: [makeWord()], settings: { autoRepeat: 2 }, reviewLog: [] })));
+        const sources = parseBackup(JSON.stringify(backup));
+        expect(sources.map(s => s.profile?.name)).toEqual(['哥哥', '妹妹']);
+        expect(sources[1].settings).toEqual({ autoRepeat: 2 });
+    });
+});
+
+test.describe('importService', () => {
+    test('merge keeps the most recently reviewed copy', () => {
+        const local = makeWord({ lastReviewed: NOW - 5000, streak: 0, totalAttempts: 3, totalWrong: 2 });
+        const incoming = makeWord({ id: 'other', lastReviewed: NOW, streak: 10, totalAttempts: 2, totalWrong: 1 });
+
+        const plan = planImport([local], [incoming], ImportMode.MERGE, NOW + 1000);
+        expect(plan.words).toHaveLength(1);
+        // Newer than both copies, so other tabs and devices keep the merge
+        expect(plan.words[0]).toMatchObject({ id: 'w1', streak: 10, totalAttempts: 3, totalWrong: 2, updatedAt: NOW + 1000 });
+        expect(plan.updated).toBe(1);
+
+        // Nothing new in the import: the local copy stays as it is
+        const again = planImport(plan.words, [{ ...incoming, updatedAt: NOW + 2000 }], ImportMode.MERGE, NOW + 3000);
+        expect(again.words[0]).toBe(plan.words[0]);
+        expect(again.updated).toBe(0);
+    });
+
+    test('new-groups mode skips groups that already exist', () => {
+        const plan = planImport([makeWord()], [makeWord({ id: 'x' }), makeWord({ id: 'y', groupTitle: '第二单元' })], ImportMode.NEW_GROUPS);
+        expect(plan.added).toBe(1);
+        expect(plan.groups.find(g => g.title === '第一单元')?.skipped).toBe(true);
+    });
+
+    test('merged review events follow the local word and are not duplicated', () => {
+        const local = makeWord({ id: 'local' });
+        const plan = planImport([local], [makeWord({ id: 'remote' })], ImportMode.MERGE);
+        const event = { id: 'e1', wordId: 'remote', timestamp: NOW, correct: false, sessionId: 's1', previousInterval: 0, newInterval: 0 };
+
+        const events = remapReviewEvents([], [event], plan.idMap);
+        expect(events).toEqual([{ ...event, wordId: 'local' }]);
+        expect(remapReviewEvents(events, [event], plan.idMap)).toEqual([]);
+    });
+
+    test('matches imported profiles by id, then by name', () => {
+        const local = [
+            { id: 'p1', name: '哥哥', avatar: null, createdAt: NOW },
+            { id: 'p2', name: '妹妹', avatar: null, createdAt: NOW },
+        ];
+        expect(findTargetProfile({ ...local[0], name: '改名了' }, local)).toBe(local[0]);
+        expect(findTargetProfile({ ...local[1], id: 'other' }, local)).toBe(local[1]);
+        expect(findTargetProfile({ id: 'x', name: '弟弟', avatar: null, createdAt: NOW }, local)).toBeUndefined();
+    });
+});
@@ -0,0 +1,17 @@
+import { test, expect } from '@playwright/test';
+import { createShareLink, parseShareHash } from '../services/shareService';
+
+const group = { title: '第三单元', words: Array.from({ length: 30 }, (_, i) => `春眠不觉晓${i}`) };
+
+test.describe('shareService', () => {
+    test('round-trips a group through the link fragment', async () => {
+        const link = await createShareLink(group, 'https://example.com/app/?x=1#old');
+        expect(link.startsWith('https://example.com/app/?x=1#share=z')).toBe(true);
+        expect(await parseShareHash(new URL(link).hash)).toEqual(group);
+    });
+
+    test('ignores other hashes and reports damaged links', async () => {
+        expect(await parseShareHash('#settings')).toBeNull();
+        await expect(parseShareHash('#share=zAAAA')).rejects.toThrow('分享链接');
+    });
+});
@@ -0,0 +1,88 @@
+import { test, expect } from '@playwright/test';
+import { mergeConcurrentEdits, mergeSyncChanges, TOMBSTONE_RETENTION_DAYS } from '../services/syncService';
+import { WordItem } from '../types';
+import { createWord } from './fixtures';
+
+const NOW = Date.UTC(2024, 5, 1);
+
+const base = createWord({
+    addedAt: NOW - 10000,
+    lastReviewed: NOW - 5000,
+    nextReview: NOW,
+    streak: 1,
+    interval: 1,
+    totalAttempts: 2,
+    totalWrong: 1,
+    lastWrongAt: NOW - 5000,
+    updatedAt: NOW - 5000,
+});
+
+test.describe('syncService', () => {
+    test('keeps a correction made in another tab when this tab renamed the word', () => {
+        const theirs: WordItem = {
+            ...base, lastReviewed: NOW, nextReview: NOW + 1000, streak: 10, interval: 14,
+            totalAttempts: 3, updatedAt: NOW,
+        };
+        const mine: WordItem = { ...base, text: '葡萄干', updatedAt: NOW - 100 };
+
+        expect(mergeConcurrentEdits(base, theirs, mine)).toEqual({ ...theirs, text: '葡萄干' });
+    });
+
+    test('adds up attempts recorded in both tabs', () => {
+        const theirs: WordItem = { ...base, lastReviewed: NOW - 200, totalAttempts: 3, totalWrong: 2, lastWrongAt: NOW - 200, updatedAt: NOW - 200 };
+        const mine: WordItem = { ...base, lastReviewed: NOW - 100, streak: 10, totalAttempts: 3, updatedAt: NOW - 100 };
+
+        expect(mergeConcurrentEdits(base, theirs, mine)).toMatchObject({
+            streak: 10,
+            totalAttempts: 4,
+            totalWrong: 2,
+            lastWrongAt: NOW - 200,
+            updatedAt: NOW - 100,
+        });
+    });
+
+    test('keeps the copy changed last and lets later deletions win', () => {
+        const older: WordItem = { ...base, id: 'w2', text: '苹果', updatedAt: NOW - 100 };
+        const current = { words: [base, older], deletedWords: [], reviewEvents: [] };
+        const renamed: WordItem = { ...base, text: '葡萄干', updatedAt: NOW };
+        const stale: WordItem = { ...base, text: '旧的', updatedAt: NOW - 9000 };
+
+        const merged = mergeSyncChanges(current, {
+            words: [renamed, stale],
+            deletedWords: [{ id: 'w2', deletedAt: NOW }],
+            reviewEvents: [],
+        }, NOW);
+        expect(merged.words).toEqual([renamed]);
+        expect(merged.deletedWords).toEqual([{ id: 'w2', deletedAt: NOW }]);
+
+        // A copy changed before the deletion does not bring the word back
+        expect(mergeSyncChanges(merged, { words: [older], deletedWords: [], reviewEvents: [] }, NOW).words).toEqual([renamed]);
+    });
+
+    test('drops deletions older than the retention window', () => {
+        const ONE_DAY = 24 * 60 * 60 * 1000;
+        const expired = { id: 'w2', deletedAt: NOW - (TOMBSTONE_RETENTION_DAYS + 1) * ONE_DAY };
+        const recent = { id: 'w3', deletedAt: NOW - ONE_DAY };
+        const current = { words: [{ ...base, updatedAt: NOW - 100 * ONE_DAY }], deletedWords: [expired, recent], reviewEvents: [] };
+
+        const merged = mergeSyncChanges(current, {
+            words: [],
+            deletedWords: [{ id: 'w1', deletedAt: NOW - (TOMBSTONE_RETENTION_DAYS + 2) * ONE_DAY }],
+            reviewEvents: [],
+        }, NOW);
+        // The deletion still applies; only its tombstone is not kept
+        expect(merged.words).toEqual([]);
+        expect(merged.deletedWords).toEqual([recent]);
+    });
+
+    test('combines review logs from both devices without duplicates', () => {
+        const event = (id: string, timestamp: number) => ({
+            id, wordId: 'w1', timestamp, correct: true, sessionId: 's1', previousInterval: 0, newInterval: 14,
+        });
+        const merged = mergeSyncChanges(
+            { words: [], deletedWords: [], reviewEvents: [event('e2', NOW), event('e1', NOW - 10)] },
+            { words: [], deletedWords: [], reviewEvents: [event('e2', NOW), event('e3', NOW - 5)] }
+        );
+        expect(merged.reviewEvents.map(e => e.id)).toEqual(['e1', 'e3', 'e2']);
+    });
+});
@@ -1,19 +1,149 @@
 
+// Spaced-repetition algorithm that schedules the next review
+export enum SchedulerAlgorithm {
+  MASTERY = 'MASTERY', // Correct once = mastered for two weeks, wrong = review now
+  SM2 = 'SM2',
+  FSRS = 'FSRS',
+}
+
 export interface WordItem {
   id: string;
   text: string;
-  groupTitle?: string; // Optional for backward compatibility
+  groupTitle: string;
   addedAt: number;
   lastReviewed: number | null;
   nextReview: number; // Timestamp for next review eligibility
   streak: number; // Consecutive correct answers
   easeFactor: number; // For Spaced Repetition (Sm-2 inspired)
   interval: number; // Days until next review
+  algorithm: SchedulerAlgorithm; // Scheduler that set the fields above
+  stability: number; // FSRS memory stability in days; 0 until scheduled by FSRS
+  difficulty: number; // FSRS difficulty 1-10; 0 until scheduled by FSRS
+  suspended: boolean; // Left out of regular reviews; still practised as a leech
+
+  // Stats for Smart Review
+  totalAttempts: number;
+  totalWrong: number;
+  lastWrongAt: number | null;
+
+  // Time of the last change to this record; newer copies win when tabs or devices disagree
+  updatedAt: number;
+}
+
+export interface LearnerProfile {
+  id: string;
+  name: string;
+  avatar: string | null; // Data URL; null uses the default picture
+  createdAt: number;
+}
+
+// How a word was written, marked in CorrectionView; from worst to best
+export enum ReviewGrade {
+  WRONG = 'WRONG',
+  PARTLY_WRONG = 'PARTLY_WRONG', // e.g. one character wrong in an idiom
+  HESITANT = 'HESITANT',         // Correct, but needed a hint or a long time
+  CORRECT = 'CORRECT',
+  EASY = 'EASY',
+}
+
+// What CorrectionView hands back for each word
+export interface CorrectionResult {
+  id: string;
+  correct: boolean; // HESITANT and better count as correct
+  grade: ReviewGrade;
+  wrongChars: string[]; // Characters marked as miswritten; empty when none were marked
+}
+
+// One correction result; the review log is append-only
+export interface ReviewEvent {
+  id: string;
+  wordId: string;
+  timestamp: number;
+  correct: boolean;
+  grade?: ReviewGrade; // Missing in events recorded before graded correction
+  wrongChars?: string[]; // Characters marked as miswritten, only stored when some were
+  sessionId: string; // Shared by all results of one dictation
+  previousInterval: number; // Days, before this result
+  newInterval: number;
+}
+
+// A deleted word or group in the recycle bin
+export interface TrashEntry {
+  id: string;
+  deletedAt: number;
+  groupTitle: string;
+  isGroup: boolean; // Whole group, or a single word from it
+  words: WordItem[]; // With their full stats, restored as they were
+}
+
+// Where a dictation was started from
+export enum SessionSource {
+  NEW_WORDS = 'NEW_WORDS',       // Right after adding a group
+  GROUP = 'GROUP',               // A group's "听写" / "复习" button
+  GLOBAL_REVIEW = 'GLOBAL_REVIEW', // All due words
+  SMART_REVIEW = 'SMART_REVIEW', // Words missed before
+  RERUN = 'RERUN',               // Same list as an earlier session
+  DAILY_PLAN = 'DAILY_PLAN',     // Today's plan on the dashboard
+  LEECH = 'LEECH',               // Practice of words missed again and again
+  WEAK_CHARS = 'WEAK_CHARS',     // Words containing the most missed characters
+}
+
+export interface SessionWordResult {
+  wordId: string;
+  text: string; // Kept so the record still reads well after the word is deleted
+  correct: boolean;
+  grade?: ReviewGrade; // Missing in sessions recorded before graded correction
+}
 
-  // New Stats for Smart Review
-  totalAttempts?: number;
-  totalWrong?: number;
-  lastWrongAt?: number | null;
+// One completed dictation, stored once CorrectionView is saved
+export interface SessionRecord {
+  id: string; // Also the sessionId of its ReviewEvents
+  startedAt: number;
+  endedAt: number;
+  source: SessionSource;
+  groupTitle: string | null;
+  order: PlaybackOrder;
+  results: SessionWordResult[]; // In playback order
+  score: number; // Percentage of correct words
+}
+
+// A dictation in progress, kept so it can be continued after a reload
+export interface ActiveSession extends Pick<SessionRecord, 'id' | 'source' | 'groupTitle' | 'startedAt'> {
+  step: 'DICTATION' | 'CORRECTION';
+  wordIds: string[]; // Play order; in the correction step only the words played
+  index: number;     // Word being dictated
+  played: string[];  // Ids of the words read out so far; skipped words are not in it
+  replays: Record<string, number>; // Word id -> extra hearings ("再读一遍" or going back)
+  settings: DictationSettings; // As used by the dictation, e.g. slower for leech practice
+  speechRate?: number;
+  savedAt: number;
+}
+
+// Words picked for one day. Progress is not stored: a planned word is done
+// once its lastReviewed falls on that day, whichever session reviewed it.
+export interface DailyPlan {
+  date: string; // Local day, YYYY-MM-DD
+  reviewIds: string[]; // Most urgent due words, at most dailyReviewLimit
+  newIds: string[];    // Never reviewed words, at most dailyNewLimit
+}
+
+// Why a snapshot was taken
+export enum SnapshotReason {
+  DAILY = 'DAILY',
+  MANUAL = 'MANUAL',
+  IMPORT = 'IMPORT',
+  GROUP_EDIT = 'GROUP_EDIT',
+  GROUP_DELETE = 'GROUP_DELETE',
+  RESTORE = 'RESTORE', // Before restoring another snapshot, so the restore can be undone
+}
+
+// Copy of a profile's words and settings at one point in time
+export interface Snapshot {
+  id: string;
+  createdAt: number;
+  reason: SnapshotReason;
+  words: WordItem[];
+  settings: DictationSettings;
 }
 
 export enum AppView {
@@ -25,6 +155,11 @@ export enum AppView {
   WORD_LIST = 'WORD_LIST',
   VIEW_DUE_WORDS = 'VIEW_DUE_WORDS',
   VIEW_ERROR_WORDS = 'VIEW_ERROR_WORDS',
+  HISTORY = 'HISTORY',
+  TRASH = 'TRASH',
+  SNAPSHOTS = 'SNAPSHOTS',
+  FORECAST = 'FORECAST',
+  WEAK_CHARS = 'WEAK_CHARS',
 }
 
 export enum DictationMode {
@@ -46,6 +181,18 @@ export interface DictationSettings {
   autoRepeat: number; // 1 = play once, 2 = play twice, etc.
   maxReviewBatchSize: number; // Max items for smart review
   silenceThreshold: number; // ms to detect new word
+  trashRetentionDays: number; // Deleted words are purged from the recycle bin after this many days
+  snapshotCount: number; // Automatic snapshots kept per profile; older ones are deleted
+  scheduler: SchedulerAlgorithm;
+  dailyReviewLimit: number; // Due words in today's plan; the rest waits for the next days
+  dailyNewLimit: number;    // Never reviewed words in today's plan
+  leechThreshold: number;   // Wrong answers before a word counts as a leech...
+  leechWrongRate: number;   // ...if at least this percentage of its attempts were wrong
+  suspendLeeches: boolean;  // Take new leeches out of regular reviews
+  examDates: Record<string, string>; // Group title -> exam day (YYYY-MM-DD)
+  examReviewCount: number;  // Reviews of every word of a group before its exam
+  replayExtension: number;  // Seconds of writing time added by "再读一遍"
+  replaysLowerGrade: boolean; // Replayed words are graded "犹豫" by default
 }
 
 export const DEFAULT_SETTINGS: DictationSettings = {
@@ -56,4 +203,54 @@ export const DEFAULT_SETTINGS: DictationSettings = {
   autoRepeat: 1,
   maxReviewBatchSize: 10,
   silenceThreshold: 500, // Default slightly higher for usability, though prompt asked for 200 as base logic
-};
\ No newline at end of file
+  trashRetentionDays: 30,
+  snapshotCount: 10,
+  scheduler: SchedulerAlgorithm.MASTERY,
+  dailyReviewLimit: 30,
+  dailyNewLimit: 10,
+  leechThreshold: 4,
+  leechWrongRate: 50,
+  suspendLeeches: false,
+  examDates: {},
+  examReviewCount: 3,
+  replayExtension: 3,
+  replaysLowerGrade: false,
+};
+
+export enum ImportMode {
+  REPLACE = 'REPLACE',       // Wipe local words, use the file's contents
+  NEW_GROUPS = 'NEW_GROUPS', // Only add groups that do not exist locally
+  MERGE = 'MERGE',           // Match words and keep the most recently reviewed copy
+}
+
+export enum SyncBackend {
+  WEBDAV = 'WEBDAV', // Any WebDAV folder (NAS, Nextcloud, ...)
+  REST = 'REST',     // Self-hosted server implementing the contract in README
+}
+
+// Sync endpoint of this device; not part of any profile or backup
+export interface SyncConfig {
+  backend: SyncBackend;
+  url: string;
+  username: string; // WebDAV only
+  password: string; // WebDAV password, or the REST bearer token
+}
+
+// A word deleted on one device, so other devices delete it too
+export interface WordTombstone {
+  id: string;
+  deletedAt: number;
+}
+
+export interface SyncStatus {
+  state: 'idle' | 'syncing' | 'offline' | 'error';
+  lastSyncedAt: number | null;
+  message: string | null; // Error shown in Settings
+}
+
+// Records exchanged with the sync endpoint; applying the same changes twice is harmless
+export interface SyncChanges {
+  words: WordItem[];
+  deletedWords: WordTombstone[];
+  reviewEvents: ReviewEvent[];
+}